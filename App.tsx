@@ -1,94 +1,842 @@
-import React, { useEffect, useRef, useState } from 'react';
-import ThreeScene from './components/ThreeScene';
-import { HandGesture } from './types';
-import { analyzeGesture } from './services/gestureRecognition';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import ThreeScene, { ThreeSceneHandle } from './components/ThreeScene';
+import TextControls from './components/TextControls';
+import ShapeSelector from './components/ShapeSelector';
+import ImageShapeControls from './components/ImageShapeControls';
+import GestureBindingsPanel from './components/GestureBindingsPanel';
+import GestureTrainer from './components/GestureTrainer';
+import SessionControls from './components/SessionControls';
+import CapturePanel from './components/CapturePanel';
+import PresetPanel from './components/PresetPanel';
+import RenderStylePanel from './components/RenderStylePanel';
+import AttractPanel from './components/AttractPanel';
+import SyncPanel from './components/SyncPanel';
+import AudioPanel from './components/AudioPanel';
+import TuningPanel from './components/TuningPanel';
+import CameraDebugOverlay from './components/CameraDebugOverlay';
+import { AttractCue, AttractSettings, AudioSourceKind, SoundCue, SyncMessage, SyncSettings, SyncStatus, CameraMode, SceneSettings, ScenePreset, SnapshotSize, CustomGesture, GestureAction, GestureBinding, GestureId, HandGesture, InputSourceKind, RecordedSession, HandLabel, ImageShapeSettings, ShapeKind, ShapeTarget, TextSettings, TextureMode, TextureSet, TrackedHand } from './types';
+import { SHAPE_CONFIG, CUSTOM_GESTURES, CAPTURE, TUNING, ATTRACT, GESTURE_TRACKING } from './constants';
+import { computeHandState, keepPrimaryHandFirst, resolveHandLabel } from './services/gestureRecognition';
+import { createGestureTracker } from './services/gestureTracker';
+import { createMotionDetector } from './services/motionGestures';
+import { ACTION_LABELS, getBindableGestures, getBoundActions, getGestureInfo, isHoldAction, isTriggerAction, loadBindings, saveBindings } from './services/gestureBindings';
+import { LandmarkFrame, createSessionRecorder, parseSession } from './services/sessionRecording';
+import { InputProvider, InputSink, createCameraProvider, createKeyboardProvider, createPointerProvider, createRemoteProvider, createReplayProvider } from './services/inputProviders';
+import { SyncChannel, createSyncChannel, readSyncParams } from './services/syncChannel';
+import { downloadBlob, downloadText, timestampedName } from './services/download';
+import { createCanvasRecorder, isRecordingSupported } from './services/sceneCapture';
+import { classifyCustomGestures, createCustomGestureId, loadCustomGestures, normalizeLandmarks, saveCustomGestures } from './services/customGestures';
+import { applyUploadLimits, checkTextureSetLimits, createTextureSet, loadImage, measureTextureSets } from './services/textureAtlas';
+import { cycleEntry, getAttractCue } from './services/attractMode';
+import { createAudioAnalyzer } from './services/audioAnalyzer';
+import { createSoundCues } from './services/soundCues';
+import { DEFAULT_ATTRACT_SETTINGS, DEFAULT_IMAGE_SHAPE_SETTINGS, DEFAULT_SCENE_SETTINGS, DEFAULT_TEXT_SETTINGS, deletePreset, listPresets, parsePreset, presetFileName, presetHash, readPresetHash, savePreset, serializePreset } from './services/presets';
+
+const INPUT_SOURCE_LABELS: Record<InputSourceKind, string> = {
+  camera: 'Camera',
+  pointer: 'Mouse & Touch',
+  keyboard: 'Keyboard',
+  replay: 'Replay',
+  remote: 'Remote',
+};
+
+const INPUT_SOURCE_HINTS: Record<InputSourceKind, string> = {
+  camera: 'Hands are tracked through the webcam.',
+  pointer: 'Wheel to push/pull, drag to tilt, long-press to scatter, pinch and twist two fingers to scale and turn.',
+  keyboard: '↑/↓ zoom · F flow · Space scatter · E scale · R spin · ←/→ shape · PgUp/PgDn photos',
+  replay: 'Playing back a recorded landmark session.',
+  remote: 'Mirroring the hands another tab broadcasts through the sync relay.',
+};
 
 const App: React.FC = () => {
-  const [gesture, setGesture] = useState<HandGesture>(HandGesture.NONE);
-  const [uploadedTextures, setUploadedTextures] = useState<string[]>([]);
+  const [trackedHands, setTrackedHands] = useState<TrackedHand[]>([]);
+  const [cameraMode, setCameraMode] = useState<CameraMode>('gesture');
+  // Every upload becomes its own set; the first entry is the default texture
+  const [textureSets, setTextureSets] = useState<TextureSet[]>([{ thumbnails: [], mosaic: null }]);
+  const [textureSetIndex, setTextureSetIndex] = useState(0);
+  const [uploadWarning, setUploadWarning] = useState<string | null>(null);
+  const [textureMode, setTextureMode] = useState<TextureMode>('random');
+  const [textSettings, setTextSettings] = useState<TextSettings>(DEFAULT_TEXT_SETTINGS);
+  const [shapeIndex, setShapeIndex] = useState(0);
+  const [shapeImage, setShapeImage] = useState<HTMLImageElement | null>(null);
+  const [imageShapeSettings, setImageShapeSettings] = useState<ImageShapeSettings>(DEFAULT_IMAGE_SHAPE_SETTINGS);
+  const [sceneSettings, setSceneSettings] = useState<SceneSettings>(DEFAULT_SCENE_SETTINGS);
+  // Saved presets for the menu, and the one the current configuration came from
+  const [presets, setPresets] = useState<ScenePreset[]>([]);
+  const [activePreset, setActivePreset] = useState<string | null>(null);
+  const [presetError, setPresetError] = useState<string | null>(null);
+  const [attractSettings, setAttractSettings] = useState<AttractSettings>(DEFAULT_ATTRACT_SETTINGS);
+  // When attract mode started (null = someone is interacting) and the choreography's current cue
+  const [attractSince, setAttractSince] = useState<number | null>(null);
+  const [attractCue, setAttractCue] = useState<AttractCue | null>(null);
+  const [showTuning, setShowTuning] = useState(false);
+  const [showCameraDebug, setShowCameraDebug] = useState(false);
+  const [customGestures, setCustomGestures] = useState<CustomGesture[]>(loadCustomGestures);
+  const [bindings, setBindings] = useState<GestureBinding[]>(() => loadBindings(customGestures));
+  const [recording, setRecording] = useState<{ id: GestureId; progress: number | null } | null>(null);
+  const [isRecordingSession, setIsRecordingSession] = useState(false);
+  const [replaySession, setReplaySession] = useState<{ name: string; session: RecordedSession } | null>(null);
+  const [loopReplay, setLoopReplay] = useState(true);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  // Displays opened with ?mirror follow the hands broadcast through the relay
+  const [inputSource, setInputSource] = useState<InputSourceKind>(
+    () => (new URLSearchParams(window.location.search).has('mirror') ? 'remote' : 'camera'),
+  );
+  const [syncSettings, setSyncSettings] = useState<SyncSettings>(
+    () => readSyncParams(window.location.search, window.location.hostname),
+  );
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('off');
+  const [syncPeers, setSyncPeers] = useState(0);
+  const [audioSource, setAudioSource] = useState<AudioSourceKind>('off');
+  const [audioFileName, setAudioFileName] = useState<string | null>(null);
+  const [audioError, setAudioError] = useState<string | null>(null);
+  const [inputNotice, setInputNotice] = useState<string | null>(null);
+  const [snapshotSize, setSnapshotSize] = useState<SnapshotSize>({ useWindow: true, width: 3840, height: 2160 });
+  const [clipSince, setClipSince] = useState<number | null>(null);
+  const [captureError, setCaptureError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const sceneRef = useRef<ThreeSceneHandle>(null);
+  // Running clip recording and the timer that ends gesture-started clips
+  const clipRecorderRef = useRef<ReturnType<typeof createCanvasRecorder> | null>(null);
+  const clipTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Whether the current hold already fired its hold actions
+  const holdFiredRef = useRef(false);
+  // Last time a hand was seen or the UI was used, for the attract mode timeout
+  const lastActivityRef = useRef(performance.now());
+  // Pointer input is read from the area behind the UI panels
+  const stageRef = useRef<HTMLDivElement>(null);
+  // Open relay connection, listeners of the remote input source, and whether the last broadcast had hands
+  const syncChannelRef = useRef<SyncChannel | null>(null);
+  const remoteListenersRef = useRef(new Set<(hands: TrackedHand[]) => void>());
+  const broadcastingHandsRef = useRef(false);
+  // Live source to return to when a replay ends
+  const liveSourceRef = useRef<InputSourceKind>('camera');
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+  // Ahead of state between an upload and the next render, so back-to-back sets both get an index
+  const textureSetsRef = useRef(textureSets);
+  textureSetsRef.current = textureSets;
+  const loopReplayRef = useRef(loopReplay);
+  loopReplayRef.current = loopReplay;
+  // One stateful tracker per hand so gestures are smoothed and debounced over time
+  const trackersRef = useRef(new Map<HandLabel, ReturnType<typeof createGestureTracker>>());
+  // And one motion detector per hand for swipes, pinch-drag and stirring
+  const motionDetectorsRef = useRef(new Map<HandLabel, ReturnType<typeof createMotionDetector>>());
+  // Each hand as last detected, held through the frames the tracker briefly misses it
+  const lastSeenRef = useRef(new Map<HandLabel, { hand: TrackedHand; at: number }>());
+  const lastPrimaryGestureRef = useRef<GestureId>(HandGesture.NONE);
+  const primaryLabelRef = useRef<HandLabel | null>(null);
+  // Trained gestures as seen by the trackers, and the capture in progress (if any)
+  const customGesturesRef = useRef(customGestures);
+  customGesturesRef.current = customGestures;
+  // Landmark session recording
+  const sessionRecorderRef = useRef(createSessionRecorder());
+  const captureRef = useRef<{ id: GestureId; name: string; startAt: number; samples: number[][] } | null>(null);
+  // Music analysis for the scene and synthesized gesture sounds
+  const [audioAnalyzer] = useState(createAudioAnalyzer);
+  const [soundCues] = useState(createSoundCues);
+
+  // The first tracked hand drives the single-hand gestures
+  const gesture = trackedHands.length > 0 ? trackedHands[0].gesture : HandGesture.NONE;
+
+  // Attract mode steps through the messages and texture sets, one per pass of the choreography
+  const attractActive = attractSince !== null && attractCue !== null;
+  const attractMessage = attractActive ? cycleEntry(attractSettings.messages, 0, attractCue.cycle) : undefined;
+  const displayedTextureSetIndex = attractActive
+    ? (textureSetIndex + attractCue.cycle) % textureSets.length
+    : textureSetIndex;
+  const activeTextureSet = textureSets[displayedTextureSetIndex] ?? textureSets[0];
+
+  // The image entry only joins the playlist once an image has been picked
+  const playlist = useMemo<ShapeKind[]>(() => {
+    return shapeImage ? [...SHAPE_CONFIG.PLAYLIST, 'image'] : [...SHAPE_CONFIG.PLAYLIST];
+  }, [shapeImage]);
+
+  // The particles morph to whatever the active playlist entry describes
+  const shapeTarget = useMemo<ShapeTarget>(() => {
+    if (attractMessage) return { kind: 'text', settings: { ...textSettings, text: attractMessage } };
+    const kind = playlist[shapeIndex] ?? 'text';
+    if (kind === 'image' && shapeImage) return { kind, image: shapeImage, settings: imageShapeSettings };
+    if (kind === 'sphere' || kind === 'heart' || kind === 'grid') return { kind };
+    return { kind: 'text', settings: textSettings };
+  }, [playlist, shapeIndex, textSettings, shapeImage, imageShapeSettings, attractMessage]);
+
+  // Editing the text jumps back to it so the change is visible
+  const handleTextChange = (settings: TextSettings) => {
+    setTextSettings(settings);
+    setShapeIndex(playlist.indexOf('text'));
+  };
+
+  // Same for the image sampling options
+  const handleImageShapeChange = (settings: ImageShapeSettings) => {
+    setImageShapeSettings(settings);
+    setShapeIndex(playlist.indexOf('image'));
+  };
+
+  // --- Gesture Bindings ---
+  const legend = useMemo(
+    () => getBindableGestures(customGestures)
+      .map(gestureId => ({ gesture: gestureId, actions: getBoundActions(bindings, gestureId) }))
+      .filter(entry => entry.actions.length > 0),
+    [bindings, customGestures],
+  );
+
+  const handleBindingsChange = (next: GestureBinding[]) => {
+    setBindings(next);
+    saveBindings(next);
+  };
+
+  // Runs the one-shot actions bound to a gesture (continuous ones are handled by the scene):
+  // trigger actions when it starts, hold actions once it has been held
+  const runTriggers = (gestureId: string, held = false) => {
+    const step = (index: number, delta: number, length: number) => (index + delta + length) % length;
+    getBoundActions(bindings, gestureId).filter(held ? isHoldAction : isTriggerAction).forEach(action => {
+      switch (action) {
+        case GestureAction.NEXT_SHAPE:
+          setShapeIndex(i => step(i, 1, playlist.length));
+          break;
+        case GestureAction.PREV_SHAPE:
+          setShapeIndex(i => step(i, -1, playlist.length));
+          break;
+        case GestureAction.NEXT_TEXTURES:
+          setTextureSetIndex(i => step(i, 1, textureSets.length));
+          break;
+        case GestureAction.PREV_TEXTURES:
+          setTextureSetIndex(i => step(i, -1, textureSets.length));
+          break;
+        case GestureAction.RECORD_CLIP:
+          handleToggleClip(CAPTURE.GESTURE_CLIP_MS);
+          break;
+        case GestureAction.SNAPSHOT:
+          handleSnapshot();
+          break;
+      }
+    });
+  };
+  // MediaPipe's callback is registered once, so it reaches the latest handler through a ref
+  const triggerHandlerRef = useRef(runTriggers);
+  triggerHandlerRef.current = runTriggers;
+
+  // --- Custom Gesture Training ---
+  const handleCustomGesturesChange = (next: CustomGesture[]) => {
+    setCustomGestures(next);
+    saveCustomGestures(next);
+  };
+
+  const startCapture = (id: GestureId, name: string) => {
+    captureRef.current = { id, name, startAt: performance.now() + CUSTOM_GESTURES.RECORD_DELAY_MS, samples: [] };
+    setRecording({ id, progress: null });
+  };
+
+  // New samples extend an existing gesture or create it
+  const finishCapture = (id: GestureId, name: string, samples: number[][]) => {
+    setRecording(null);
+    const existing = customGestures.find(gesture => gesture.id === id);
+    handleCustomGesturesChange(existing
+      ? customGestures.map(gesture => (gesture.id === id ? { ...gesture, samples: [...gesture.samples, ...samples] } : gesture))
+      : [...customGestures, { id, name, samples }]);
+  };
+  const finishCaptureRef = useRef(finishCapture);
+  finishCaptureRef.current = finishCapture;
+
+  const handleDeleteCustomGesture = (id: GestureId) => {
+    handleCustomGesturesChange(customGestures.filter(gesture => gesture.id !== id));
+    handleBindingsChange(bindings.filter(binding => binding.gesture !== id));
+  };
+
+  // Imported gestures replace ones with the same id
+  const handleImportCustomGestures = (imported: CustomGesture[]) => {
+    const importedIds = new Set(imported.map(gesture => gesture.id));
+    handleCustomGesturesChange([...customGestures.filter(gesture => !importedIds.has(gesture.id)), ...imported]);
+  };
+
+  // --- Shape Image Upload ---
+  const handleShapeImageSelected = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const image = new Image();
+      image.onload = () => {
+        setShapeImage(image);
+        setShapeIndex(SHAPE_CONFIG.PLAYLIST.length);
+      };
+      image.src = e.target?.result as string;
+    };
+    reader.readAsDataURL(file);
+  };
+
+  // --- Presets ---
+  const buildPreset = (name: string): ScenePreset => ({
+    version: 1,
+    name,
+    savedAt: new Date().toISOString(),
+    text: textSettings,
+    scene: sceneSettings,
+    bindings,
+    customGestures,
+    textureSets,
+    textureSetIndex,
+    textureMode,
+    shapeImage: shapeImage?.src ?? null,
+    imageShape: imageShapeSettings,
+    attract: attractSettings,
+  });
+
+  const applyPreset = (preset: ScenePreset) => {
+    setTextSettings(preset.text);
+    setSceneSettings(preset.scene);
+    handleBindingsChange(preset.bindings);
+    handleImportCustomGestures(preset.customGestures);
+    textureSetsRef.current = preset.textureSets;
+    setTextureSets(preset.textureSets);
+    setTextureSetIndex(preset.textureSetIndex);
+    setTextureMode(preset.textureMode);
+    setImageShapeSettings(preset.imageShape);
+    setAttractSettings(preset.attract);
+    setShapeImage(null);
+    setShapeIndex(0);
+    if (preset.shapeImage) {
+      loadImage(preset.shapeImage)
+        .then(setShapeImage)
+        .catch(() => setPresetError(`The shape image of "${preset.name}" could not be loaded`));
+    }
+    setActivePreset(preset.name);
+    setPresetError(null);
+  };
+  const applyPresetRef = useRef(applyPreset);
+  applyPresetRef.current = applyPreset;
+
+  const refreshPresets = () => listPresets().then(setPresets);
+
+  // Keeps the address bookmarkable for the stored preset on screen
+  const showPresetInHash = (name: string) => window.history.replaceState(null, '', presetHash(name));
+
+  const handleLoadPreset = (preset: ScenePreset) => {
+    applyPreset(preset);
+    showPresetInHash(preset.name);
+  };
+
+  const handleSavePreset = (name: string) => {
+    savePreset(buildPreset(name))
+      .then(() => {
+        setActivePreset(name);
+        setPresetError(null);
+        showPresetInHash(name);
+        return refreshPresets();
+      })
+      .catch(err => setPresetError(`Saving failed: ${err?.message ?? err}`));
+  };
+
+  const handleDeletePreset = (name: string) => {
+    deletePreset(name)
+      .then(() => {
+        setActivePreset(null);
+        window.history.replaceState(null, '', window.location.pathname + window.location.search);
+        return refreshPresets();
+      })
+      .catch(err => setPresetError(`Deleting failed: ${err?.message ?? err}`));
+  };
+
+  const handleExportPreset = () => {
+    const name = activePreset ?? 'Untitled';
+    downloadText(serializePreset(buildPreset(name)), presetFileName(name));
+  };
 
-  // --- MediaPipe Initialization ---
+  // Imported presets are stored too, so they show up in the menu
+  const handleImportPreset = (preset: ScenePreset) => {
+    applyPreset(preset);
+    savePreset(preset)
+      .then(() => {
+        showPresetInHash(preset.name);
+        return refreshPresets();
+      })
+      .catch(err => setPresetError(`Saving failed: ${err?.message ?? err}`));
+  };
+
+  // #preset=<name> picks a saved preset, #preset=<url> fetches a preset file
   useEffect(() => {
-    const initMediaPipe = async () => {
-      if (!videoRef.current) return;
-      if (!window.Hands) {
-        setError("MediaPipe scripts not loaded. Check internet connection.");
-        setLoading(false);
+    const loadFromHash = () => {
+      const target = readPresetHash(window.location.hash);
+      if (!target) return;
+      if ('url' in target) {
+        fetch(target.url)
+          .then(response => {
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            return response.text();
+          })
+          .then(text => applyPresetRef.current(parsePreset(text)))
+          .catch(err => setPresetError(`Could not load ${target.url}: ${err?.message ?? err}`));
         return;
       }
+      listPresets()
+        .then(stored => {
+          const preset = stored.find(p => p.name === target.name);
+          if (preset) applyPresetRef.current(preset);
+          else setPresetError(`No saved preset named "${target.name}"`);
+        })
+        .catch(err => setPresetError(`Presets unavailable: ${err?.message ?? err}`));
+    };
 
-      try {
-        const hands = new window.Hands({
-          locateFile: (file) => {
-            return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-          },
-        });
+    refreshPresets().catch(err => setPresetError(`Presets unavailable: ${err?.message ?? err}`));
+    loadFromHash();
+    window.addEventListener('hashchange', loadFromHash);
+    return () => window.removeEventListener('hashchange', loadFromHash);
+  }, []);
 
-        hands.setOptions({
-          maxNumHands: 1,
-          modelComplexity: 1,
-          minDetectionConfidence: 0.5,
-          minTrackingConfidence: 0.5,
-        });
+  // --- Attract Mode ---
+  const startAttract = () => {
+    setAttractCue(getAttractCue(0).cue);
+    setAttractSince(performance.now());
+  };
 
-        hands.onResults((results) => {
-          if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-            const landmarks = results.multiHandLandmarks[0];
-            const detectedGesture = analyzeGesture(landmarks);
-            setGesture(detectedGesture);
-          } else {
-            setGesture(HandGesture.NONE);
-          }
-        });
+  // Someone is back: the scene's eased state carries on from where the choreography left it.
+  // The texture set on screen stays, the text morphs back to the configured one.
+  const stopAttract = () => {
+    lastActivityRef.current = performance.now();
+    if (attractSince === null) return;
+    setTextureSetIndex(displayedTextureSetIndex);
+    setAttractSince(null);
+    setAttractCue(null);
+  };
+  const stopAttractRef = useRef(stopAttract);
+  stopAttractRef.current = stopAttract;
+
+  // Starts once nobody has been around for the configured time
+  useEffect(() => {
+    if (!attractSettings.enabled || attractSince !== null) return;
+    const timer = setInterval(() => {
+      if (performance.now() - lastActivityRef.current >= attractSettings.idleSeconds * 1000) startAttract();
+    }, ATTRACT.CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [attractSettings.enabled, attractSettings.idleSeconds, attractSince]);
+
+  // Steps through the choreography, waking up only when the cue changes
+  useEffect(() => {
+    if (attractSince === null) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const update = () => {
+      const { cue, nextChangeMs } = getAttractCue(performance.now() - attractSince);
+      setAttractCue(cue);
+      timer = setTimeout(update, nextChangeMs);
+    };
+    update();
+    return () => clearTimeout(timer);
+  }, [attractSince]);
+
+  // Using the UI counts as activity too, so the kiosk doesn't start attracting mid-setup
+  useEffect(() => {
+    const handleActivity = () => {
+      stopAttractRef.current();
+      soundCues.unlock();
+    };
+    window.addEventListener('pointerdown', handleActivity);
+    window.addEventListener('keydown', handleActivity);
+    return () => {
+      window.removeEventListener('pointerdown', handleActivity);
+      window.removeEventListener('keydown', handleActivity);
+    };
+  }, []);
 
-        const camera = new window.Camera(videoRef.current, {
-          onFrame: async () => {
-            if (videoRef.current) {
-              await hands.send({ image: videoRef.current });
-            }
-          },
-          width: 640,
-          height: 480,
+  // --- Audio ---
+  const handleSoundCue = (cue: SoundCue) => soundCues.play(cue, sceneSettings.audio.cueVolume);
+
+  const handleAudioSource = async (source: AudioSourceKind, file?: File) => {
+    setAudioError(null);
+    try {
+      let started = true;
+      if (source === 'microphone') started = await audioAnalyzer.startMicrophone();
+      else if (source === 'file' && file) started = await audioAnalyzer.startFile(file);
+      else audioAnalyzer.stop();
+      // A newer choice replaced this one while it was starting
+      if (!started) return;
+      setAudioSource(source);
+      setAudioFileName(file?.name ?? null);
+    } catch {
+      setAudioSource('off');
+      setAudioError(source === 'microphone' ? 'Microphone access was denied or is unavailable' : `Could not play ${file?.name}`);
+    }
+  };
+
+  useEffect(() => {
+    audioAnalyzer.setSensitivity(sceneSettings.audio.sensitivity);
+    audioAnalyzer.setVolume(sceneSettings.audio.musicVolume);
+  }, [sceneSettings.audio.sensitivity, sceneSettings.audio.musicVolume]);
+
+  useEffect(() => () => {
+    audioAnalyzer.close();
+    soundCues.close();
+  }, []);
+
+  // --- Tuning Panel ---
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const element = event.target as HTMLElement | null;
+      if (element && ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName)) return;
+      if (event.key === TUNING.TOGGLE_KEY) setShowTuning(show => !show);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // --- Recognition Pipeline ---
+  // Turns one frame of landmarks (live or replayed) into tracked hands
+  const processResults = (results: LandmarkFrame, now: number) => {
+    const trackers = trackersRef.current;
+    const motionDetectors = motionDetectorsRef.current;
+    const landmarkLists = results.multiHandLandmarks ?? [];
+    const detected: TrackedHand[] = [];
+
+    landmarkLists.forEach((landmarks, i) => {
+      let label = resolveHandLabel(results.multiHandedness?.[i], i);
+      // MediaPipe occasionally labels both hands the same; keep their trackers apart
+      if (detected.some(hand => hand.label === label)) label = label === 'Left' ? 'Right' : 'Left';
+
+      if (!trackers.has(label)) {
+        const handLabel = label;
+        trackers.set(label, createGestureTracker(smoothed => (
+          customGesturesRef.current.length > 0
+            ? classifyCustomGestures(normalizeLandmarks(smoothed, handLabel), customGesturesRef.current)
+            : {}
+        )));
+      }
+      if (!motionDetectors.has(label)) motionDetectors.set(label, createMotionDetector());
+
+      const { event, landmarks: smoothed } = trackers.get(label)!.update(landmarks, now);
+      const state = computeHandState(smoothed ?? landmarks);
+      const motion = motionDetectors.get(label)!.update(state, now);
+
+      detected.push({
+        label,
+        gesture: event.gesture,
+        gestureDuration: event.duration,
+        state,
+        motion,
+        landmarks: smoothed ?? landmarks,
+      });
+    });
+
+    // A hand missed for a moment stays where it was (without firing its motion again);
+    // hands that left keep decaying, so they don't come back mid-gesture
+    const lastSeen = lastSeenRef.current;
+    const present = new Set(detected.map(hand => hand.label));
+    detected.forEach(hand => lastSeen.set(hand.label, { hand, at: now }));
+    lastSeen.forEach(({ hand, at }, label) => {
+      if (present.has(label)) return;
+      if (now - at < GESTURE_TRACKING.DROPOUT_MS) {
+        detected.push({
+          ...hand,
+          gestureDuration: hand.gestureDuration + now - at,
+          motion: { ...hand.motion, swipe: null, pinchDrag: null },
         });
+      } else {
+        lastSeen.delete(label);
+      }
+    });
+    trackers.forEach((tracker, label) => {
+      if (!lastSeen.has(label)) tracker.update(null, now);
+    });
+    motionDetectors.forEach((detector, label) => {
+      if (!lastSeen.has(label)) detector.update(null, now);
+    });
 
-        await camera.start();
+    publishHands(keepPrimaryHandFirst(detected, primaryLabelRef.current), now);
+  };
+
+  // Every input source ends here: training capture, one-shot triggers and the scene update
+  const publishHands = (detected: TrackedHand[], now: number) => {
+    if (detected.length > 0) stopAttract();
+
+    detected.forEach(hand => {
+      if (hand.motion.swipe) triggerHandlerRef.current(hand.motion.swipe);
+    });
+
+    // Training samples come from the primary hand once the countdown is over
+    const capture = captureRef.current;
+    if (capture && detected.length > 0 && detected[0].landmarks.length > 0 && now >= capture.startAt) {
+      capture.samples.push(normalizeLandmarks(detected[0].landmarks, detected[0].label));
+      if (capture.samples.length >= CUSTOM_GESTURES.SAMPLES_PER_RECORDING) {
+        captureRef.current = null;
+        finishCaptureRef.current(capture.id, capture.name, capture.samples);
+      } else {
+        setRecording({ id: capture.id, progress: capture.samples.length / CUSTOM_GESTURES.SAMPLES_PER_RECORDING });
+      }
+    }
+
+    // Static gestures fire their one-shot actions when the primary hand enters them
+    const primaryGesture = detected.length > 0 ? detected[0].gesture : HandGesture.NONE;
+    if (primaryGesture !== lastPrimaryGestureRef.current && primaryGesture !== HandGesture.NONE) {
+      triggerHandlerRef.current(primaryGesture);
+      if (primaryGesture === HandGesture.OK_SIGN) handleSoundCue('chime');
+    }
+    lastPrimaryGestureRef.current = primaryGesture;
+    primaryLabelRef.current = detected.length > 0 ? detected[0].label : null;
+
+    // Hold actions fire once per hold, when the primary gesture has lasted CAPTURE.HOLD_MS
+    const primary = detected[0];
+    if (primary && primary.gesture !== HandGesture.NONE && primary.gestureDuration >= CAPTURE.HOLD_MS) {
+      if (!holdFiredRef.current) triggerHandlerRef.current(primary.gesture, true);
+      holdFiredRef.current = true;
+    } else {
+      holdFiredRef.current = false;
+    }
+
+    // Other tabs mirror these hands; an empty frame is sent once when they leave
+    if (syncSettings.broadcast && inputSource !== 'remote' && (detected.length > 0 || broadcastingHandsRef.current)) {
+      syncChannelRef.current?.send({ type: 'hands', hands: detected });
+      broadcastingHandsRef.current = detected.length > 0;
+    }
+
+    // Skip the re-render while nobody is in front of the camera
+    setTrackedHands(prev => (prev.length === 0 && detected.length === 0 ? prev : detected));
+  };
+  const processResultsRef = useRef(processResults);
+  processResultsRef.current = processResults;
+  const publishHandsRef = useRef(publishHands);
+  publishHandsRef.current = publishHands;
+
+  // --- Session Recording & Replay ---
+  // Fresh trackers keep state from the previous source from leaking into the next one
+  const resetTracking = () => {
+    trackersRef.current.clear();
+    motionDetectorsRef.current.clear();
+    lastSeenRef.current.clear();
+    lastPrimaryGestureRef.current = HandGesture.NONE;
+    primaryLabelRef.current = null;
+    setTrackedHands([]);
+  };
+
+  const handleStartSessionRecording = () => {
+    sessionRecorderRef.current.start(performance.now());
+    setIsRecordingSession(true);
+    setSessionError(null);
+  };
+
+  const handleStopSessionRecording = () => {
+    const session = sessionRecorderRef.current.stop();
+    setIsRecordingSession(false);
+    downloadText(JSON.stringify(session), timestampedName('landmarks', 'json'));
+  };
+
+  const handleStopReplay = () => {
+    setInputSource(liveSourceRef.current);
+  };
+
+  const handleReplay = (file: File) => {
+    file.text().then(text => {
+      try {
+        setReplaySession({ name: file.name, session: parseSession(text) });
+        setInputSource('replay');
+        setSessionError(null);
+      } catch {
+        setSessionError(`${file.name} is not a recorded session`);
+      }
+    });
+  };
+
+  // --- Input Source ---
+  // Only one source feeds the pipeline at a time; a camera that can't start falls back to the pointer
+  useEffect(() => {
+    const sink: InputSink = {
+      onLandmarks: (frame, now) => {
+        if (sessionRecorderRef.current.isRecording()) sessionRecorderRef.current.record(frame, now);
+        processResultsRef.current(frame, now);
+      },
+      onHands: (hands, now) => publishHandsRef.current(hands, now),
+    };
+    const getBindings = () => bindingsRef.current;
+
+    let provider: InputProvider | null = null;
+    if (inputSource === 'camera' && videoRef.current) {
+      provider = createCameraProvider(videoRef.current, sink);
+    } else if (inputSource === 'pointer' && stageRef.current) {
+      provider = createPointerProvider(stageRef.current, sink, getBindings);
+    } else if (inputSource === 'keyboard') {
+      provider = createKeyboardProvider(sink, getBindings);
+    } else if (inputSource === 'remote') {
+      provider = createRemoteProvider(listener => {
+        remoteListenersRef.current.add(listener);
+        return () => remoteListenersRef.current.delete(listener);
+      }, sink);
+    } else if (inputSource === 'replay' && replaySession) {
+      provider = createReplayProvider(replaySession.session, sink, {
+        loop: () => loopReplayRef.current,
+        onEnd: () => setInputSource(liveSourceRef.current),
+      });
+    }
+    if (inputSource !== 'replay') liveSourceRef.current = inputSource;
+
+    resetTracking();
+    if (!provider) {
+      setLoading(false);
+      return;
+    }
+
+    let active = true;
+    setLoading(inputSource === 'camera');
+    provider.start()
+      .then(() => {
+        if (!active) return;
         setLoading(false);
-      } catch (err) {
+        setInputNotice(null);
+      })
+      .catch((err) => {
         console.error(err);
-        setError("Failed to access camera or initialize MediaPipe.");
+        if (!active) return;
         setLoading(false);
-      }
+        setInputNotice('Camera or hand tracking unavailable. Switched to mouse & touch.');
+        setInputSource('pointer');
+      });
+
+    return () => {
+      active = false;
+      provider?.stop();
     };
+  }, [inputSource, replaySession]);
+
+  // --- Sync Relay ---
+  // Controllers push text, photos and presets; broadcasting tabs send their hands
+  const handleSyncMessage = (message: SyncMessage) => {
+    switch (message.type) {
+      case 'hands':
+        remoteListenersRef.current.forEach(listener => listener(message.hands));
+        break;
+      case 'text':
+        handleTextChange(message.text);
+        break;
+      case 'textures':
+        addTextureSet(message.textureSet);
+        break;
+      case 'preset':
+        applyPreset(message.preset);
+        break;
+      case 'peers':
+        setSyncPeers(message.count);
+        break;
+    }
+  };
+  const syncMessageHandlerRef = useRef(handleSyncMessage);
+  syncMessageHandlerRef.current = handleSyncMessage;
 
-    initMediaPipe();
+  useEffect(() => {
+    if (!syncSettings.enabled) return;
+    const channel = createSyncChannel(syncSettings.url, syncSettings.room, {
+      onMessage: message => syncMessageHandlerRef.current(message),
+      onStatus: status => {
+        setSyncStatus(status);
+        if (status !== 'connected') setSyncPeers(0);
+      },
+    });
+    syncChannelRef.current = channel;
+    return () => {
+      syncChannelRef.current = null;
+      channel.close();
+    };
+  }, [syncSettings.enabled, syncSettings.url, syncSettings.room]);
+
+  // --- Capture ---
+  const handleSnapshot = () => {
+    const width = snapshotSize.useWindow ? Math.round(window.innerWidth * window.devicePixelRatio) : snapshotSize.width;
+    const height = snapshotSize.useWindow ? Math.round(window.innerHeight * window.devicePixelRatio) : snapshotSize.height;
+    sceneRef.current?.snapshot(width, height)
+      .then(blob => {
+        downloadBlob(blob, timestampedName('particles', 'png'));
+        setCaptureError(null);
+      })
+      .catch(err => setCaptureError(err.message));
+  };
+
+  const stopClip = () => {
+    if (clipTimerRef.current) clearTimeout(clipTimerRef.current);
+    clipTimerRef.current = null;
+    const recorder = clipRecorderRef.current;
+    clipRecorderRef.current = null;
+    setClipSince(null);
+    recorder?.stop().then(blob => downloadBlob(blob, timestampedName('particles', 'webm')));
+  };
+
+  // Starts a clip (optionally limited, for gesture-started clips) or stops the running one
+  const handleToggleClip = (limitMs?: number) => {
+    if (clipRecorderRef.current) {
+      stopClip();
+      return;
+    }
+    const canvas = sceneRef.current?.getCanvas();
+    if (!canvas) return;
+    try {
+      clipRecorderRef.current = createCanvasRecorder(canvas);
+      clipRecorderRef.current.start();
+      setClipSince(performance.now());
+      setCaptureError(null);
+      if (limitMs) clipTimerRef.current = setTimeout(stopClip, limitMs);
+    } catch (err) {
+      setCaptureError((err as Error).message);
+    }
+  };
+
+  // A clip still recording when the app goes away is dropped, not left running
+  useEffect(() => () => {
+    if (clipTimerRef.current) clearTimeout(clipTimerRef.current);
+    clipRecorderRef.current?.stop();
+    clipRecorderRef.current = null;
   }, []);
 
   // --- File Upload Handler ---
+  // Photos are downscaled to thumbnails right away; only those go into state and the atlas
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (files && files.length > 0) {
-      const promises = Array.from(files).map(file => {
-        return new Promise<string>((resolve) => {
-          const reader = new FileReader();
-          reader.onload = (e) => resolve(e.target?.result as string);
-          reader.readAsDataURL(file);
-        });
-      });
+    const files: File[] = Array.from(e.target.files ?? []);
+    if (files.length > 0) {
+      const { accepted, warning } = applyUploadLimits(files, measureTextureSets(textureSetsRef.current));
+      setUploadWarning(warning);
+      if (accepted.length === 0) return;
 
-      Promise.all(promises).then(images => {
-        setUploadedTextures(images);
-      });
+      createTextureSet(accepted).then(addTextureSet);
+    }
+  };
+
+  // New uploads join the sets (swipe up/down to switch) and become active
+  const addTextureSet = (textureSet: TextureSet) => {
+    // The caps cover every loaded set, not just one upload
+    const warning = checkTextureSetLimits(textureSetsRef.current, textureSet);
+    if (warning) {
+      setUploadWarning(warning);
+      return;
     }
+    const sets = [...textureSetsRef.current, textureSet];
+    textureSetsRef.current = sets;
+    setTextureSets(sets);
+    setTextureSetIndex(sets.length - 1);
+  };
+
+  // Frees room under the caps; the default texture (set 1) stays
+  const removeTextureSet = (index: number) => {
+    if (index === 0) return;
+    const sets = textureSetsRef.current.filter((_, i) => i !== index);
+    textureSetsRef.current = sets;
+    setTextureSets(sets);
+    setTextureSetIndex(Math.min(index, sets.length - 1));
+    setUploadWarning(null);
   };
 
   return (
     <div className="relative w-full h-screen bg-black text-white font-sans overflow-hidden">
       
-      {/* 3D Background */}
-      <ThreeScene gesture={gesture} uploadedTextures={uploadedTextures} />
+      {/* 3D Background (also the pointer input surface) */}
+      <div ref={stageRef} className="absolute inset-0 z-0 touch-none">
+        <ThreeScene
+          ref={sceneRef}
+          hands={trackedHands}
+          cameraMode={cameraMode}
+          uploadedTextures={activeTextureSet.thumbnails}
+          mosaicImage={activeTextureSet.mosaic}
+          textureMode={textureMode}
+          shapeTarget={shapeTarget}
+          bindings={bindings}
+          settings={sceneSettings}
+          attract={attractActive ? attractCue : null}
+          audio={audioSource !== 'off' ? audioAnalyzer : null}
+          onSoundCue={handleSoundCue}
+        />
+      </div>
 
       {/* Hidden Video for MediaPipe */}
       <video ref={videoRef} className="hidden" playsInline />
@@ -101,89 +849,277 @@ const App: React.FC = () => {
             Show hand gestures to interact with the particle text.
           </p>
           
+          {/* Legend, generated from the active bindings */}
           <div className="mt-6 space-y-4">
-            <div className={`flex items-center space-x-3 transition-opacity ${gesture === HandGesture.FIST ? 'opacity-100' : 'opacity-40'}`}>
-              <span className="w-8 h-8 rounded-full bg-red-500 flex items-center justify-center text-xs font-bold">✊</span>
-              <div className="flex flex-col">
-                 <span className="font-bold">Fist</span>
-                 <span className="text-xs">Pull back (Zoom Out)</span>
+            {legend.map(({ gesture: gestureId, actions }) => (
+              <div key={gestureId} className={`flex items-center space-x-3 transition-opacity ${gesture === gestureId ? 'opacity-100' : 'opacity-40'}`}>
+                <span className={`w-8 h-8 rounded-full ${getGestureInfo(gestureId, customGestures).color} flex items-center justify-center text-xs font-bold`}>{getGestureInfo(gestureId, customGestures).icon}</span>
+                <div className="flex flex-col">
+                  <span className="font-bold">{getGestureInfo(gestureId, customGestures).label}</span>
+                  <span className="text-xs">{actions.map(action => ACTION_LABELS[action]).join(' & ')}</span>
+                </div>
               </div>
-            </div>
+            ))}
+          </div>
 
-            <div className={`flex items-center space-x-3 transition-opacity ${gesture === HandGesture.OPEN_PALM ? 'opacity-100' : 'opacity-40'}`}>
-              <span className="w-8 h-8 rounded-full bg-blue-500 flex items-center justify-center text-xs font-bold">✋</span>
-              <div className="flex flex-col">
-                 <span className="font-bold">Open Palm</span>
-                 <span className="text-xs">Push forward & Flowing Effect</span>
-              </div>
-            </div>
+          {/* Camera Mode */}
+          <div className="mt-6 pointer-events-auto inline-flex rounded-full bg-gray-900/80 border border-gray-700 p-1 text-xs">
+            {(['gesture', 'hand'] as CameraMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setCameraMode(mode)}
+                className={`px-3 py-1 rounded-full font-semibold transition ${cameraMode === mode ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+              >
+                {mode === 'gesture' ? 'Gesture Camera' : 'Hand Camera'}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs opacity-50 mt-2 max-w-xs">
+            {cameraMode === 'hand'
+              ? 'Move your palm to orbit, bring it closer to zoom. Point to push particles, pinch to pull them.'
+              : 'Point to push particles, pinch to pull them.'}
+          </p>
+          <p className="text-xs opacity-50 mt-1 max-w-xs">
+            Pinch and drag to tilt, stir in circles to swirl.
+          </p>
 
-            <div className={`flex items-center space-x-3 transition-opacity ${gesture === HandGesture.OK_SIGN ? 'opacity-100' : 'opacity-40'}`}>
-              <span className="w-8 h-8 rounded-full bg-green-500 flex items-center justify-center text-xs font-bold">👌</span>
-               <div className="flex flex-col">
-                 <span className="font-bold">OK Sign</span>
-                 <span className="text-xs">Scale Up Particles</span>
-              </div>
-            </div>
+          {/* Input Source */}
+          <div className="mt-4 pointer-events-auto inline-flex rounded-full bg-gray-900/80 border border-gray-700 p-1 text-xs">
+            {(Object.keys(INPUT_SOURCE_LABELS) as InputSourceKind[]).map(source => (
+              <button
+                key={source}
+                onClick={() => setInputSource(source)}
+                disabled={(source === 'replay' && !replaySession) || (source === 'remote' && !syncSettings.enabled)}
+                className={`px-3 py-1 rounded-full font-semibold transition disabled:opacity-30 ${inputSource === source ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+              >
+                {INPUT_SOURCE_LABELS[source]}
+              </button>
+            ))}
           </div>
+          <p className="text-xs opacity-50 mt-2 max-w-xs">{INPUT_SOURCE_HINTS[inputSource]}</p>
+          {inputNotice && <p className="text-xs text-amber-400 mt-1 max-w-xs">{inputNotice}</p>}
+          <button
+            onClick={() => setShowCameraDebug(!showCameraDebug)}
+            className={`mt-2 pointer-events-auto px-3 py-1 rounded-full text-xs font-semibold border border-gray-700 transition ${showCameraDebug ? 'bg-indigo-600 text-white' : 'bg-gray-900/80 text-gray-400 hover:text-white'}`}
+          >
+            Camera Debug
+          </button>
         </div>
 
-        {/* Upload Control */}
-        <div className="pointer-events-auto bg-gray-900/80 backdrop-blur-sm p-4 rounded-xl border border-gray-700">
-            <label className="block text-xs font-bold mb-2 uppercase tracking-wide text-gray-400">
-              Custom Textures (Select Multiple)
-            </label>
-            <input 
-              type="file" 
-              accept="image/*" 
-              multiple
-              onChange={handleFileUpload}
-              className="block w-full text-sm text-gray-300
-                file:mr-4 file:py-2 file:px-4
-                file:rounded-full file:border-0
-                file:text-xs file:font-semibold
-                file:bg-indigo-600 file:text-white
-                hover:file:bg-indigo-700
-                cursor-pointer
-              "
-            />
-            <p className="text-xs text-gray-500 mt-2">
-              {uploadedTextures.length > 0 ? `${uploadedTextures.length} images loaded` : 'Default texture active'}
-            </p>
+        <div className="flex flex-col items-end space-y-4">
+          {/* Scene Presets */}
+          <PresetPanel
+            presets={presets}
+            activeName={activePreset}
+            error={presetError}
+            onLoad={handleLoadPreset}
+            onSave={handleSavePreset}
+            onDelete={handleDeletePreset}
+            onExport={handleExportPreset}
+            onImport={handleImportPreset}
+          />
+
+          {/* Materials, colors and post-processing */}
+          <RenderStylePanel settings={sceneSettings} onChange={setSceneSettings} />
+
+          {/* Upload Control */}
+          <div className="pointer-events-auto bg-gray-900/80 backdrop-blur-sm p-4 rounded-xl border border-gray-700">
+              <label className="block text-xs font-bold mb-2 uppercase tracking-wide text-gray-400">
+                Custom Textures (Select Multiple)
+              </label>
+              <input 
+                type="file" 
+                accept="image/*" 
+                multiple
+                onChange={handleFileUpload}
+                className="block w-full text-sm text-gray-300
+                  file:mr-4 file:py-2 file:px-4
+                  file:rounded-full file:border-0
+                  file:text-xs file:font-semibold
+                  file:bg-indigo-600 file:text-white
+                  hover:file:bg-indigo-700
+                  cursor-pointer
+                "
+              />
+              <p className="text-xs text-gray-500 mt-2">
+                {activeTextureSet.thumbnails.length > 0 ? `${activeTextureSet.thumbnails.length} images loaded` : 'Default texture active'}
+              </p>
+              {textureSets.length > 1 && (
+                <div className="flex items-center justify-between mt-2 text-xs text-gray-400">
+                  <button onClick={() => setTextureSetIndex((textureSetIndex - 1 + textureSets.length) % textureSets.length)} className="px-2 py-1 rounded-md bg-gray-800 hover:bg-gray-700">◀</button>
+                  <span>
+                    Set {textureSetIndex + 1} / {textureSets.length}
+                    {textureSetIndex > 0 && (
+                      <button onClick={() => removeTextureSet(textureSetIndex)} className="ml-2 text-gray-500 hover:text-red-400" title="Remove this set">✕</button>
+                    )}
+                  </span>
+                  <button onClick={() => setTextureSetIndex((textureSetIndex + 1) % textureSets.length)} className="px-2 py-1 rounded-md bg-gray-800 hover:bg-gray-700">▶</button>
+                </div>
+              )}
+              {uploadWarning && (
+                <p className="text-xs text-amber-400 mt-1 max-w-[16rem]">{uploadWarning}</p>
+              )}
+              <div className="flex mt-3 space-x-1">
+                {(['random', 'mosaic'] as TextureMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setTextureMode(mode)}
+                    className={`flex-1 py-1 rounded-md text-xs font-semibold transition ${textureMode === mode ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`}
+                  >
+                    {mode === 'random' ? 'Scattered Photos' : 'Photo Mosaic'}
+                  </button>
+                ))}
+              </div>
+          </div>
+
+          {/* Shape Playlist */}
+          <ShapeSelector playlist={playlist} activeIndex={shapeIndex} onSelect={setShapeIndex} />
+
+          {/* Text Control */}
+          <TextControls settings={textSettings} onChange={handleTextChange} />
+
+          {/* Image Silhouette Control */}
+          <ImageShapeControls
+            settings={imageShapeSettings}
+            hasImage={shapeImage !== null}
+            onChange={handleImageShapeChange}
+            onImageSelected={handleShapeImageSelected}
+          />
+
+          {/* Gesture Bindings */}
+          <GestureBindingsPanel bindings={bindings} customGestures={customGestures} onChange={handleBindingsChange} />
+
+          {/* Custom Gesture Training */}
+          <GestureTrainer
+            gestures={customGestures}
+            recording={recording}
+            onRecordNew={(name) => startCapture(createCustomGestureId(name), name)}
+            onRecordMore={(id) => startCapture(id, customGestures.find(gesture => gesture.id === id)?.name ?? id)}
+            onDelete={handleDeleteCustomGesture}
+            onImport={handleImportCustomGestures}
+          />
+
+          {/* Landmark Session Recording / Replay */}
+          <SessionControls
+            isRecording={isRecordingSession}
+            playingName={inputSource === 'replay' ? replaySession?.name ?? null : null}
+            loop={loopReplay}
+            error={sessionError}
+            onStartRecording={handleStartSessionRecording}
+            onStopRecording={handleStopSessionRecording}
+            onPlay={handleReplay}
+            onStopPlayback={handleStopReplay}
+            onLoopChange={setLoopReplay}
+          />
+
+          {/* Snapshots & Clips */}
+          <CapturePanel
+            snapshotSize={snapshotSize}
+            onSnapshotSizeChange={setSnapshotSize}
+            onSnapshot={handleSnapshot}
+            recordingSince={clipSince}
+            canRecord={isRecordingSupported()}
+            onToggleRecording={() => handleToggleClip()}
+            error={captureError}
+          />
+
+          {/* Remote control & display mirroring */}
+          <SyncPanel
+            settings={syncSettings}
+            onChange={setSyncSettings}
+            status={syncStatus}
+            peers={syncPeers}
+          />
+
+          {/* Music analysis & gesture sounds */}
+          <AudioPanel
+            settings={sceneSettings.audio}
+            onChange={(audio) => setSceneSettings(settings => ({ ...settings, audio }))}
+            source={audioSource}
+            fileName={audioFileName}
+            error={audioError}
+            onSourceChange={handleAudioSource}
+            getLevels={() => audioAnalyzer.latest().levels}
+          />
+
+          {/* Kiosk idle loop */}
+          <AttractPanel
+            settings={attractSettings}
+            onChange={setAttractSettings}
+            active={attractActive}
+            onPreview={startAttract}
+          />
         </div>
       </div>
 
-      {/* Loading / Error States */}
+      {/* Attract mode prompt */}
+      {attractActive && attractSettings.prompt && (
+        <div className="absolute inset-x-0 bottom-16 z-10 flex justify-center pointer-events-none">
+          <p className="px-6 py-3 rounded-full bg-gray-900/60 backdrop-blur-sm text-2xl font-bold tracking-wide animate-pulse">
+            ✋ {attractSettings.prompt}
+          </p>
+        </div>
+      )}
+
+      {/* Live Tuning (toggled by TUNING.TOGGLE_KEY) */}
+      {showTuning && (
+        <div className="absolute bottom-6 left-6 z-20">
+          <TuningPanel
+            physics={sceneSettings.physics}
+            onChange={(physics) => setSceneSettings(settings => ({ ...settings, physics }))}
+            getStats={() => sceneRef.current?.getStats() ?? null}
+            onClose={() => setShowTuning(false)}
+          />
+        </div>
+      )}
+
+      {/* Camera Preview with Landmarks */}
+      {showCameraDebug && (
+        <div className="absolute bottom-6 right-6 z-20 pointer-events-none">
+          <CameraDebugOverlay
+            video={inputSource === 'camera' ? videoRef.current : null}
+            hands={trackedHands}
+            customGestures={customGestures}
+          />
+        </div>
+      )}
+
+      {/* Loading State */}
       {loading && (
         <div className="absolute inset-0 z-50 flex items-center justify-center bg-black">
           <div className="text-center">
              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white mx-auto mb-4"></div>
              <p className="animate-pulse">Initializing Camera & AI Model...</p>
+             <button
+               onClick={() => setInputSource('pointer')}
+               className="mt-6 px-4 py-2 text-sm text-gray-400 border border-gray-700 rounded hover:text-white hover:border-gray-500 transition"
+             >
+               Continue without camera
+             </button>
           </div>
         </div>
       )}
 
-      {error && (
-        <div className="absolute inset-0 z-50 flex items-center justify-center bg-gray-900/90">
-           <div className="p-8 bg-red-900/50 rounded-xl border border-red-500 text-center max-w-md">
-              <h2 className="text-2xl font-bold mb-2">Error</h2>
-              <p>{error}</p>
-              <button 
-                onClick={() => window.location.reload()}
-                className="mt-6 px-4 py-2 bg-white text-red-900 font-bold rounded hover:bg-gray-200 transition"
-              >
-                Reload
-              </button>
-           </div>
-        </div>
-      )}
-
       {/* Current Gesture Indicator (Bottom Center) */}
       <div className="absolute bottom-10 left-1/2 transform -translate-x-1/2 z-10">
-         <div className="bg-white/10 backdrop-blur-md px-6 py-2 rounded-full border border-white/20">
+         <div className="bg-white/10 backdrop-blur-md px-6 py-2 rounded-full border border-white/20 flex items-center space-x-4">
             <span className="font-mono text-sm tracking-widest uppercase">
-               DETECTED: {gesture === HandGesture.NONE ? '...' : gesture.replace('_', ' ')}
+               DETECTED: {trackedHands.length === 0 && '...'}
             </span>
+            {trackedHands.map((hand, i) => (
+              <span key={`${hand.label}-${i}`} className="font-mono text-sm tracking-widest uppercase">
+                <span className="opacity-50">{hand.label}{i === 0 ? '*' : ''}:</span>{' '}
+                {hand.gesture === HandGesture.NONE ? '...' : getGestureInfo(hand.gesture, customGestures).label}
+                {hand.gesture !== HandGesture.NONE && hand.gestureDuration >= 1000 && (
+                  <span className="opacity-50"> {(hand.gestureDuration / 1000).toFixed(0)}s</span>
+                )}
+              </span>
+            ))}
+            {trackedHands.length >= 2 && (
+              <span className="font-mono text-xs tracking-widest uppercase text-indigo-300">
+                Spread = Scale · Twist = Rotate
+              </span>
+            )}
          </div>
       </div>
 
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { AttractSettings } from '../types';
+
+interface AttractPanelProps {
+  settings: AttractSettings;
+  onChange: (settings: AttractSettings) => void;
+  active: boolean;
+  onPreview: () => void;
+}
+
+const AttractPanel: React.FC<AttractPanelProps> = ({ settings, onChange, active, onPreview }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="pointer-events-auto bg-gray-900/80 backdrop-blur-sm p-4 rounded-xl border border-gray-700 w-72">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between text-xs font-bold uppercase tracking-wide text-gray-400 hover:text-white"
+      >
+        <span>
+          Attract Mode
+          {active && <span className="ml-2 normal-case font-normal text-indigo-300">running</span>}
+        </span>
+        <span>{open ? '▾' : '▸'}</span>
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-2">
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+                className="accent-indigo-500"
+              />
+              <span>After</span>
+            </label>
+            <input
+              type="number"
+              min={5}
+              value={settings.idleSeconds}
+              onChange={(e) => {
+                const seconds = parseInt(e.target.value, 10);
+                if (!Number.isNaN(seconds)) onChange({ ...settings, idleSeconds: Math.max(5, seconds) });
+              }}
+              className="w-16 bg-gray-800 text-xs text-gray-200 rounded-md px-2 py-1 border border-gray-700"
+            />
+            <span className="flex-1 ml-2">s without a hand</span>
+          </div>
+
+          <input
+            type="text"
+            value={settings.prompt}
+            onChange={(e) => onChange({ ...settings, prompt: e.target.value })}
+            placeholder="Prompt, e.g. Raise your hand"
+            className="w-full bg-gray-800 text-xs text-gray-200 rounded-md px-2 py-1 border border-gray-700 focus:outline-none focus:border-indigo-500"
+          />
+          <textarea
+            value={settings.messages.join('\n')}
+            onChange={(e) => onChange({ ...settings, messages: e.target.value.split('\n') })}
+            onBlur={() => onChange({ ...settings, messages: settings.messages.map(m => m.trim()).filter(Boolean) })}
+            rows={3}
+            placeholder={'Messages to cycle, one per line\n(empty keeps the current text)'}
+            className="w-full bg-gray-800 text-xs text-gray-200 rounded-md px-2 py-1 border border-gray-700 focus:outline-none focus:border-indigo-500 resize-none"
+          />
+
+          <button
+            onClick={onPreview}
+            disabled={active}
+            className="w-full py-1 rounded-md bg-gray-800 text-gray-300 hover:bg-gray-700 disabled:opacity-40 text-xs"
+          >
+            Start now (any input stops it)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttractPanel;
@@ -0,0 +1,152 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AUDIO } from '../constants';
+import { AudioBand, AudioLevels, AudioRoute, AudioSettings, AudioSourceKind, AudioTarget } from '../types';
+
+const BANDS: { id: AudioRoute['band']; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'bass', label: 'Bass' },
+  { id: 'mid', label: 'Mid' },
+  { id: 'treble', label: 'Treble' },
+];
+
+const TARGETS: { id: AudioTarget; label: string; max: number }[] = [
+  { id: 'flow', label: 'Flow', max: 1 },
+  { id: 'scatter', label: 'Scatter on beats', max: 1 },
+  { id: 'scale', label: 'Particle size', max: 2 },
+];
+
+const METER_BANDS: AudioBand[] = ['bass', 'mid', 'treble'];
+const METER_INTERVAL_MS = 100;
+
+interface AudioPanelProps {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+  source: AudioSourceKind;
+  fileName: string | null;
+  error: string | null;
+  onSourceChange: (source: AudioSourceKind, file?: File) => void;
+  getLevels: () => AudioLevels;
+}
+
+const AudioPanel: React.FC<AudioPanelProps> = ({ settings, onChange, source, fileName, error, onSourceChange, getLevels }) => {
+  const [open, setOpen] = useState(false);
+  const [levels, setLevels] = useState<AudioLevels | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Meters refresh only while they can be seen
+  useEffect(() => {
+    if (!open || source === 'off') {
+      setLevels(null);
+      return;
+    }
+    const timer = setInterval(() => setLevels(getLevels()), METER_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [open, source]);
+
+  const setRoute = (target: AudioTarget, changes: Partial<AudioRoute>) =>
+    onChange({ ...settings, routes: { ...settings.routes, [target]: { ...settings.routes[target], ...changes } } });
+
+  const optionClass = (active: boolean) =>
+    `flex-1 py-1 rounded-md text-xs ${active ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`;
+
+  const slider = (label: string, value: number, max: number, onValue: (value: number) => void) => (
+    <label className="block text-xs text-gray-400">
+      <span className="flex justify-between">
+        <span>{label}</span>
+        <span className="font-mono text-gray-200">{value}</span>
+      </span>
+      <input
+        type="range"
+        min={0}
+        max={max}
+        step={0.05}
+        value={value}
+        onChange={(e) => onValue(parseFloat(e.target.value))}
+        className="w-full accent-indigo-500"
+      />
+    </label>
+  );
+
+  return (
+    <div className="pointer-events-auto bg-gray-900/80 backdrop-blur-sm p-4 rounded-xl border border-gray-700 w-72">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between text-xs font-bold uppercase tracking-wide text-gray-400 hover:text-white"
+      >
+        <span>
+          Audio
+          {source !== 'off' && <span className="ml-2 normal-case font-normal text-indigo-300">{source === 'microphone' ? 'listening' : 'playing'}</span>}
+        </span>
+        <span>{open ? '▾' : '▸'}</span>
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-2">
+          <div className="flex space-x-1">
+            <button onClick={() => onSourceChange('off')} className={optionClass(source === 'off')}>Off</button>
+            <button onClick={() => onSourceChange('microphone')} className={optionClass(source === 'microphone')}>Microphone</button>
+            <button onClick={() => fileInputRef.current?.click()} className={optionClass(source === 'file')}>File…</button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onSourceChange('file', file);
+            }}
+          />
+          {source === 'file' && fileName && <p className="text-xs text-gray-500 truncate">{fileName}</p>}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+
+          {levels && (
+            <div className="space-y-1">
+              {METER_BANDS.map(band => (
+                <div key={band} className="flex items-center text-xs text-gray-400">
+                  <span className="w-12 capitalize">{band}</span>
+                  <div className="flex-1 h-1.5 bg-gray-800 rounded">
+                    <div className="h-full bg-indigo-500 rounded" style={{ width: `${Math.round(levels[band] * 100)}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {TARGETS.map(({ id, label, max }) => (
+            <div key={id} className="text-xs text-gray-400">
+              <div className="flex items-center justify-between">
+                <span>{label}</span>
+                <select
+                  value={settings.routes[id].band}
+                  onChange={(e) => setRoute(id, { band: e.target.value as AudioRoute['band'] })}
+                  className="bg-gray-800 text-xs text-gray-200 rounded-md px-2 py-1 border border-gray-700"
+                >
+                  {BANDS.map(band => <option key={band.id} value={band.id}>{band.label}</option>)}
+                </select>
+              </div>
+              {settings.routes[id].band !== 'off' && (
+                <input
+                  type="range"
+                  min={0}
+                  max={max}
+                  step={0.05}
+                  value={settings.routes[id].amount}
+                  onChange={(e) => setRoute(id, { amount: parseFloat(e.target.value) })}
+                  className="w-full accent-indigo-500"
+                />
+              )}
+            </div>
+          ))}
+
+          {slider('Sensitivity', settings.sensitivity, AUDIO.MAX_SENSITIVITY, sensitivity => onChange({ ...settings, sensitivity }))}
+          {slider('Music volume', settings.musicVolume, 1, musicVolume => onChange({ ...settings, musicVolume }))}
+          {slider('Gesture sounds', settings.cueVolume, 1, cueVolume => onChange({ ...settings, cueVolume }))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioPanel;
@@ -0,0 +1,109 @@
+import React, { useEffect, useRef } from 'react';
+import { CustomGesture, TrackedHand } from '../types';
+import { CAMERA_DEBUG, HAND_BONES } from '../constants';
+import { diagnoseHand } from '../services/gestureRecognition';
+import { getGestureInfo } from '../services/gestureBindings';
+
+interface CameraDebugOverlayProps {
+  video: HTMLVideoElement | null;  // Camera feed; without one the landmarks are drawn on black
+  hands: TrackedHand[];
+  customGestures: CustomGesture[];
+}
+
+const HAND_COLORS = { Left: '#38bdf8', Right: '#f472b6' };
+
+const CameraDebugOverlay: React.FC<CameraDebugOverlayProps> = ({ video, hands, customGestures }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const handsRef = useRef(hands);
+  handsRef.current = hands;
+
+  // Redrawn every frame so the preview keeps up with the video, not with React renders
+  useEffect(() => {
+    let reqId: number;
+    const draw = () => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (canvas && ctx) {
+        const { width, height } = canvas;
+        // Mirrored like the scene, so moving right moves right
+        ctx.setTransform(-1, 0, 0, 1, width, 0);
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, width, height);
+        if (video && video.readyState >= 2) ctx.drawImage(video, 0, 0, width, height);
+
+        handsRef.current.forEach(hand => {
+          const points = hand.landmarks.map(p => ({ x: p.x * width, y: p.y * height }));
+          if (points.length === 0) return;
+          ctx.strokeStyle = HAND_COLORS[hand.label];
+          ctx.lineWidth = 2;
+          ctx.beginPath();
+          HAND_BONES.forEach(([from, to]) => {
+            ctx.moveTo(points[from].x, points[from].y);
+            ctx.lineTo(points[to].x, points[to].y);
+          });
+          ctx.stroke();
+          ctx.fillStyle = '#fff';
+          points.forEach(p => {
+            ctx.beginPath();
+            ctx.arc(p.x, p.y, 2.5, 0, Math.PI * 2);
+            ctx.fill();
+          });
+        });
+      }
+      reqId = requestAnimationFrame(draw);
+    };
+    draw();
+    return () => cancelAnimationFrame(reqId);
+  }, [video]);
+
+  const withLandmarks = hands.filter(hand => hand.landmarks.length > 0);
+
+  return (
+    <div className="bg-gray-900/90 backdrop-blur-sm p-2 rounded-xl border border-gray-700 text-xs font-mono">
+      <canvas
+        ref={canvasRef}
+        width={CAMERA_DEBUG.WIDTH}
+        height={CAMERA_DEBUG.HEIGHT}
+        className="rounded-md block"
+        style={{ width: CAMERA_DEBUG.WIDTH, height: CAMERA_DEBUG.HEIGHT }}
+      />
+
+      {withLandmarks.length === 0 && (
+        <p className="mt-2 text-gray-500">{hands.length > 0 ? 'Synthetic input, no landmarks' : 'No hand in view'}</p>
+      )}
+
+      {withLandmarks.map(hand => {
+        const diagnostics = diagnoseHand(hand.landmarks);
+        const touching = diagnostics.thumbIndexDistance < diagnostics.okDistance;
+        return (
+          <div key={hand.label} className="mt-2 space-y-1">
+            <div className="flex justify-between">
+              <span style={{ color: HAND_COLORS[hand.label] }}>{hand.label}</span>
+              <span className="text-gray-300">{getGestureInfo(hand.gesture, customGestures).label}</span>
+            </div>
+            <div className="flex space-x-1">
+              {diagnostics.fingers.map(({ finger, extended, extension }) => (
+                <span
+                  key={finger}
+                  className={`flex-1 text-center rounded px-1 ${extended ? 'bg-emerald-700 text-white' : 'bg-gray-700 text-gray-400'}`}
+                >
+                  {finger[0]} {extended ? 'ext' : 'curl'} {extension.toFixed(1)}
+                </span>
+              ))}
+            </div>
+            <div className="flex justify-between text-gray-400">
+              <span>
+                Thumb–index{' '}
+                <span className={touching ? 'text-emerald-400' : 'text-gray-200'}>{diagnostics.thumbIndexDistance.toFixed(3)}</span>
+                {touching ? ' < ' : ' ≥ '}{diagnostics.okDistance}
+              </span>
+              <span>Prox <span className="text-gray-200">{diagnostics.proximity.toFixed(2)}</span></span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CameraDebugOverlay;
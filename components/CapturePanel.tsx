@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { SnapshotSize } from '../types';
+
+interface CapturePanelProps {
+  snapshotSize: SnapshotSize;
+  onSnapshotSizeChange: (size: SnapshotSize) => void;
+  onSnapshot: () => void;
+  recordingSince: number | null;  // performance.now() when the running clip started
+  canRecord: boolean;
+  onToggleRecording: () => void;
+  error: string | null;
+}
+
+const CapturePanel: React.FC<CapturePanelProps> = ({
+  snapshotSize,
+  onSnapshotSizeChange,
+  onSnapshot,
+  recordingSince,
+  canRecord,
+  onToggleRecording,
+  error,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+
+  // Tick the clip timer while recording
+  useEffect(() => {
+    if (recordingSince === null) return;
+    const update = () => setElapsed(Math.floor((performance.now() - recordingSince) / 1000));
+    update();
+    const timer = setInterval(update, 250);
+    return () => clearInterval(timer);
+  }, [recordingSince]);
+
+  const setDimension = (key: 'width' | 'height', value: string) => {
+    const parsed = parseInt(value, 10);
+    if (!Number.isNaN(parsed)) onSnapshotSizeChange({ ...snapshotSize, [key]: Math.max(1, parsed) });
+  };
+
+  return (
+    <div className="pointer-events-auto bg-gray-900/80 backdrop-blur-sm p-4 rounded-xl border border-gray-700 w-72">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between text-xs font-bold uppercase tracking-wide text-gray-400 hover:text-white"
+      >
+        <span>
+          Capture
+          {recordingSince !== null && <span className="ml-2 text-red-400 animate-pulse">● {elapsed}s</span>}
+        </span>
+        <span>{open ? '▾' : '▸'}</span>
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-2">
+          <label className="flex items-center space-x-2 text-xs text-gray-400">
+            <input
+              type="checkbox"
+              checked={snapshotSize.useWindow}
+              onChange={(e) => onSnapshotSizeChange({ ...snapshotSize, useWindow: e.target.checked })}
+              className="accent-indigo-500"
+            />
+            <span>Snapshot at window size</span>
+          </label>
+
+          {!snapshotSize.useWindow && (
+            <div className="flex items-center space-x-1 text-xs text-gray-400">
+              <input
+                type="number"
+                min={1}
+                value={snapshotSize.width}
+                onChange={(e) => setDimension('width', e.target.value)}
+                className="w-20 bg-gray-800 text-xs text-gray-200 rounded-md px-2 py-1 border border-gray-700"
+              />
+              <span>×</span>
+              <input
+                type="number"
+                min={1}
+                value={snapshotSize.height}
+                onChange={(e) => setDimension('height', e.target.value)}
+                className="w-20 bg-gray-800 text-xs text-gray-200 rounded-md px-2 py-1 border border-gray-700"
+              />
+              <span>px</span>
+            </div>
+          )}
+
+          <div className="flex space-x-2">
+            <button
+              onClick={onSnapshot}
+              className="flex-1 py-1 rounded-md bg-gray-800 text-gray-300 hover:bg-gray-700 text-xs font-semibold"
+            >
+              Snapshot PNG
+            </button>
+            <button
+              onClick={onToggleRecording}
+              disabled={!canRecord}
+              className={`flex-1 py-1 rounded-md text-xs font-semibold transition disabled:opacity-40 ${recordingSince !== null ? 'bg-red-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {recordingSince !== null ? 'Stop & Save' : 'Record WebM'}
+            </button>
+          </div>
+
+          {!canRecord && <p className="text-xs text-gray-500">This browser can't record WebM video.</p>}
+          {error && <p className="text-xs text-amber-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CapturePanel;
@@ -0,0 +1,174 @@
+import React, { useEffect, useRef, useState } from 'react';
+import TextControls from './TextControls';
+import SyncPanel from './SyncPanel';
+import { CustomGesture, ScenePreset, SyncMessage, SyncSettings, SyncStatus, TextSettings, TrackedHand } from '../types';
+import { SyncChannel, createSyncChannel, readSyncParams } from '../services/syncChannel';
+import { DEFAULT_TEXT_SETTINGS, listPresets, parsePreset } from '../services/presets';
+import { applyUploadLimits, createTextureSet } from '../services/textureAtlas';
+import { getGestureInfo } from '../services/gestureBindings';
+import { loadCustomGestures } from '../services/customGestures';
+
+const panelClass = 'pointer-events-auto bg-gray-900/80 backdrop-blur-sm p-4 rounded-xl border border-gray-700 w-72';
+const headingClass = 'block text-xs font-bold mb-2 uppercase tracking-wide text-gray-400';
+
+/**
+ * Operator page (?view=controller). Has no camera or scene of its own: it pushes
+ * text, photos and presets to every display in the room and shows the hands they
+ * broadcast.
+ */
+const ControllerView: React.FC = () => {
+  const [syncSettings, setSyncSettings] = useState<SyncSettings>(() => ({
+    ...readSyncParams(window.location.search, window.location.hostname),
+    enabled: true,
+  }));
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('off');
+  const [syncPeers, setSyncPeers] = useState(0);
+  const [textSettings, setTextSettings] = useState<TextSettings>(DEFAULT_TEXT_SETTINGS);
+  const [presets, setPresets] = useState<ScenePreset[]>([]);
+  const [hands, setHands] = useState<TrackedHand[]>([]);
+  const [customGestures] = useState<CustomGesture[]>(loadCustomGestures);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const channelRef = useRef<SyncChannel | null>(null);
+
+  useEffect(() => {
+    listPresets().then(setPresets).catch(() => setPresets([]));
+  }, []);
+
+  useEffect(() => {
+    if (!syncSettings.enabled) return;
+    const channel = createSyncChannel(syncSettings.url, syncSettings.room, {
+      onMessage: (message) => {
+        if (message.type === 'hands') setHands(message.hands);
+        else if (message.type === 'peers') setSyncPeers(message.count);
+      },
+      onStatus: setSyncStatus,
+    });
+    channelRef.current = channel;
+    return () => {
+      channel.close();
+      channelRef.current = null;
+      setHands([]);
+    };
+  }, [syncSettings.enabled, syncSettings.url, syncSettings.room]);
+
+  const send = (message: SyncMessage, description: string) => {
+    const sent = channelRef.current?.send(message) ?? false;
+    setNotice(sent ? `Sent ${description}` : 'Not connected to the relay');
+  };
+
+  const handlePhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    const { accepted, warning } = applyUploadLimits(files);
+    if (accepted.length === 0) {
+      if (warning) setNotice(warning);
+      return;
+    }
+    setBusy(true);
+    try {
+      const textureSet = await createTextureSet(accepted);
+      send({ type: 'textures', textureSet }, `${accepted.length} photo${accepted.length === 1 ? '' : 's'}${warning ? ` (${warning})` : ''}`);
+    } catch {
+      setNotice('Could not read the photos');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePresetFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const preset = parsePreset(await file.text());
+      send({ type: 'preset', preset }, `preset "${preset.name}"`);
+    } catch {
+      setNotice('Not a valid preset file');
+    }
+  };
+
+  const handleStoredPreset = (name: string) => {
+    const preset = presets.find(p => p.name === name);
+    if (preset) send({ type: 'preset', preset }, `preset "${preset.name}"`);
+  };
+
+  return (
+    <div className="min-h-screen w-full bg-gray-950 text-white p-4 flex flex-wrap gap-4 items-start">
+      <div className="w-full">
+        <h1 className="text-xl font-bold">Controller</h1>
+        <p className="text-xs text-gray-400">Changes go to every display in room <span className="font-mono">{syncSettings.room}</span>.</p>
+        {notice && <p className="text-xs text-indigo-300 mt-1">{notice}</p>}
+      </div>
+
+      <div className="space-y-4">
+        <SyncPanel settings={syncSettings} onChange={setSyncSettings} status={syncStatus} peers={syncPeers} canBroadcast={false} />
+
+        <div className={panelClass}>
+          <label className={headingClass}>Displays</label>
+          {hands.length === 0 ? (
+            <p className="text-xs text-gray-500">No hands broadcast. Open a display with &amp;broadcast to see its camera here.</p>
+          ) : (
+            <ul className="space-y-1 text-xs">
+              {hands.map(hand => (
+                <li key={hand.label} className="flex justify-between">
+                  <span className="text-gray-400">{hand.label}</span>
+                  <span className="text-gray-200">
+                    {getGestureInfo(hand.gesture, customGestures).label}
+                    <span className="ml-2 font-mono text-gray-500">{(hand.gestureDuration / 1000).toFixed(1)}s</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <TextControls settings={textSettings} onChange={setTextSettings} />
+        <button
+          onClick={() => send({ type: 'text', text: textSettings }, 'text')}
+          className="w-72 py-2 rounded-md text-sm font-semibold bg-indigo-600 hover:bg-indigo-500 text-white"
+        >
+          Send text
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        <div className={panelClass}>
+          <label className={headingClass}>Photos</label>
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            disabled={busy}
+            onChange={handlePhotos}
+            className="block w-full text-xs text-gray-400 file:mr-2 file:py-1 file:px-2 file:rounded-md file:border-0 file:bg-gray-800 file:text-gray-200 hover:file:bg-gray-700"
+          />
+          <p className="text-xs text-gray-500 mt-2">{busy ? 'Preparing photos…' : 'Displays switch to the new set as it arrives.'}</p>
+        </div>
+
+        <div className={panelClass}>
+          <label className={headingClass}>Presets</label>
+          <select
+            value=""
+            onChange={(e) => handleStoredPreset(e.target.value)}
+            disabled={presets.length === 0}
+            className="w-full bg-gray-800 text-xs text-gray-200 rounded-md px-2 py-1 border border-gray-700 mb-2"
+          >
+            <option value="">{presets.length === 0 ? 'No presets saved in this browser' : 'Send a saved preset…'}</option>
+            {presets.map(preset => <option key={preset.name} value={preset.name}>{preset.name}</option>)}
+          </select>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={handlePresetFile}
+            className="block w-full text-xs text-gray-400 file:mr-2 file:py-1 file:px-2 file:rounded-md file:border-0 file:bg-gray-800 file:text-gray-200 hover:file:bg-gray-700"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ControllerView;
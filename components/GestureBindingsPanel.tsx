@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { CustomGesture, GestureAction, GestureBinding } from '../types';
+import { ACTION_LABELS, DEFAULT_BINDINGS, getBindableActions, getBindableGestures, getGestureInfo } from '../services/gestureBindings';
+
+interface GestureBindingsPanelProps {
+  bindings: GestureBinding[];
+  // Trained gestures are offered next to the built-in ones
+  customGestures: CustomGesture[];
+  onChange: (bindings: GestureBinding[]) => void;
+}
+
+const selectClass = 'flex-1 min-w-0 bg-gray-800 text-xs text-gray-200 rounded-md px-2 py-1 border border-gray-700';
+
+const GestureBindingsPanel: React.FC<GestureBindingsPanelProps> = ({ bindings, customGestures, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const gestures = getBindableGestures(customGestures);
+
+  const update = (index: number, patch: Partial<GestureBinding>) => {
+    onChange(bindings.map((binding, i) => (i === index ? { ...binding, ...patch } : binding)));
+  };
+
+  // Switching to a gesture that can't drive the current action picks the first one it can
+  const changeGesture = (index: number, gesture: string) => {
+    const actions = getBindableActions(gesture);
+    update(index, actions.includes(bindings[index].action) ? { gesture } : { gesture, action: actions[0] });
+  };
+
+  const remove = (index: number) => {
+    onChange(bindings.filter((_, i) => i !== index));
+  };
+
+  const add = () => {
+    onChange([...bindings, { gesture: gestures[0], action: GestureAction.ZOOM_IN }]);
+  };
+
+  return (
+    <div className="pointer-events-auto bg-gray-900/80 backdrop-blur-sm p-4 rounded-xl border border-gray-700 w-72">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between text-xs font-bold uppercase tracking-wide text-gray-400 hover:text-white"
+      >
+        Gesture Controls
+        <span>{open ? '▾' : '▸'}</span>
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-2">
+          {bindings.map((binding, i) => (
+            <div key={i} className="flex items-center space-x-1">
+              <select
+                value={binding.gesture}
+                onChange={(e) => changeGesture(i, e.target.value)}
+                className={selectClass}
+              >
+                {gestures.map(gesture => (
+                  <option key={gesture} value={gesture}>{getGestureInfo(gesture, customGestures).label}</option>
+                ))}
+              </select>
+              <select
+                value={binding.action}
+                onChange={(e) => update(i, { action: e.target.value as GestureAction })}
+                className={selectClass}
+              >
+                {getBindableActions(binding.gesture).map(action => (
+                  <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => remove(i)}
+                className="px-2 py-1 rounded-md bg-gray-800 text-gray-400 hover:bg-red-600 hover:text-white text-xs"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+
+          <div className="flex space-x-2 pt-1">
+            <button
+              onClick={add}
+              className="flex-1 py-1 rounded-md bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-semibold"
+            >
+              Add Binding
+            </button>
+            <button
+              onClick={() => onChange(DEFAULT_BINDINGS)}
+              className="flex-1 py-1 rounded-md bg-gray-800 text-gray-300 hover:bg-gray-700 text-xs"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GestureBindingsPanel;
@@ -0,0 +1,126 @@
+import React, { useRef, useState } from 'react';
+import { CustomGesture, GestureId } from '../types';
+import { parseCustomGestures, serializeCustomGestures } from '../services/customGestures';
+import { downloadText } from '../services/download';
+
+interface GestureTrainerProps {
+  gestures: CustomGesture[];
+  // Gesture being recorded and how far along the capture is (0-1, null while waiting for the pose)
+  recording: { id: GestureId; progress: number | null } | null;
+  onRecordNew: (name: string) => void;
+  onRecordMore: (id: GestureId) => void;
+  onDelete: (id: GestureId) => void;
+  onImport: (gestures: CustomGesture[]) => void;
+}
+
+const GestureTrainer: React.FC<GestureTrainerProps> = ({ gestures, recording, onRecordNew, onRecordMore, onDelete, onImport }) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleRecordNew = () => {
+    if (!name.trim()) return;
+    onRecordNew(name.trim());
+    setName('');
+  };
+
+  const handleExport = () => {
+    downloadText(serializeCustomGestures(gestures), 'custom-gestures.json');
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      try {
+        onImport(parseCustomGestures(text));
+        setImportError(null);
+      } catch {
+        setImportError(`${file.name} is not a gesture file`);
+      }
+    });
+  };
+
+  const status = recording
+    ? recording.progress === null
+      ? 'Get into the pose…'
+      : `Recording ${Math.round(recording.progress * 100)}%`
+    : null;
+
+  return (
+    <div className="pointer-events-auto bg-gray-900/80 backdrop-blur-sm p-4 rounded-xl border border-gray-700 w-72">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between text-xs font-bold uppercase tracking-wide text-gray-400 hover:text-white"
+      >
+        Train Gestures
+        <span>{open ? '▾' : '▸'}</span>
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-2">
+          <div className="flex space-x-1">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Pose name, e.g. Peace"
+              className="flex-1 min-w-0 bg-gray-800 text-xs text-gray-200 rounded-md px-2 py-1 border border-gray-700 focus:outline-none focus:border-indigo-500"
+            />
+            <button
+              onClick={handleRecordNew}
+              disabled={!name.trim() || recording !== null}
+              className="px-3 py-1 rounded-md bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 text-white text-xs font-semibold"
+            >
+              Record
+            </button>
+          </div>
+
+          {status && <p className="text-xs text-amber-400 animate-pulse">{status}</p>}
+
+          {gestures.map(gesture => (
+            <div key={gesture.id} className="flex items-center space-x-1 text-xs">
+              <span className="flex-1 truncate text-gray-200">★ {gesture.name}</span>
+              <span className="text-gray-500">{gesture.samples.length} samples</span>
+              <button
+                onClick={() => onRecordMore(gesture.id)}
+                disabled={recording !== null}
+                className="px-2 py-1 rounded-md bg-gray-800 text-gray-300 hover:bg-gray-700 disabled:opacity-40"
+              >
+                +
+              </button>
+              <button
+                onClick={() => onDelete(gesture.id)}
+                className="px-2 py-1 rounded-md bg-gray-800 text-gray-400 hover:bg-red-600 hover:text-white"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+
+          <div className="flex space-x-2 pt-1">
+            <button
+              onClick={handleExport}
+              disabled={gestures.length === 0}
+              className="flex-1 py-1 rounded-md bg-gray-800 text-gray-300 hover:bg-gray-700 disabled:opacity-40 text-xs"
+            >
+              Export JSON
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex-1 py-1 rounded-md bg-gray-800 text-gray-300 hover:bg-gray-700 text-xs"
+            >
+              Import JSON
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          </div>
+          {importError && <p className="text-xs text-amber-400">{importError}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GestureTrainer;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { ImageShapeSettings } from '../types';
+import { IMAGE_SHAPE_RANGES } from '../services/presets';
+
+interface ImageShapeControlsProps {
+  settings: ImageShapeSettings;
+  hasImage: boolean;
+  onChange: (settings: ImageShapeSettings) => void;
+  onImageSelected: (file: File) => void;
+}
+
+const ImageShapeControls: React.FC<ImageShapeControlsProps> = ({ settings, hasImage, onChange, onImageSelected }) => {
+  const update = <K extends keyof ImageShapeSettings>(key: K, value: ImageShapeSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  return (
+    <div className="pointer-events-auto bg-gray-900/80 backdrop-blur-sm p-4 rounded-xl border border-gray-700 w-72">
+      <label className="block text-xs font-bold mb-2 uppercase tracking-wide text-gray-400">
+        Shape From Image
+      </label>
+      <input
+        type="file"
+        accept="image/*"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImageSelected(file);
+        }}
+        className="block w-full text-sm text-gray-300
+          file:mr-4 file:py-2 file:px-4
+          file:rounded-full file:border-0
+          file:text-xs file:font-semibold
+          file:bg-indigo-600 file:text-white
+          hover:file:bg-indigo-700
+          cursor-pointer
+        "
+      />
+
+      {hasImage && (
+        <>
+          <div className="grid grid-cols-2 gap-2 mt-3">
+            <select
+              value={settings.mode}
+              onChange={(e) => update('mode', e.target.value as ImageShapeSettings['mode'])}
+              className="bg-gray-800 text-xs text-gray-200 rounded-md px-2 py-1 border border-gray-700"
+            >
+              <option value="alpha">Silhouette (alpha)</option>
+              <option value="luminance">Brightness</option>
+            </select>
+            <label className="flex items-center space-x-2 text-xs text-gray-400">
+              <input
+                type="checkbox"
+                checked={settings.invert}
+                onChange={(e) => update('invert', e.target.checked)}
+                className="accent-indigo-500"
+              />
+              <span>Invert</span>
+            </label>
+          </div>
+
+          <label className="flex items-center justify-between text-xs text-gray-400 mt-3">
+            <span>Threshold</span>
+            <span className="font-mono">{settings.threshold}</span>
+          </label>
+          <input
+            type="range"
+            min={IMAGE_SHAPE_RANGES.threshold[0]}
+            max={IMAGE_SHAPE_RANGES.threshold[1]}
+            value={settings.threshold}
+            onChange={(e) => update('threshold', Number(e.target.value))}
+            className="w-full accent-indigo-500"
+          />
+
+          <label className="flex items-center justify-between text-xs text-gray-400 mt-2">
+            <span>Particle Gap</span>
+            <span className="font-mono">{settings.gap}px</span>
+          </label>
+          <input
+            type="range"
+            min={IMAGE_SHAPE_RANGES.gap[0]}
+            max={IMAGE_SHAPE_RANGES.gap[1]}
+            value={settings.gap}
+            onChange={(e) => update('gap', Number(e.target.value))}
+            className="w-full accent-indigo-500"
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ImageShapeControls;
@@ -0,0 +1,130 @@
+import React, { useRef, useState } from 'react';
+import { ScenePreset } from '../types';
+import { parsePreset, presetHash } from '../services/presets';
+
+interface PresetPanelProps {
+  presets: ScenePreset[];
+  activeName: string | null;  // Preset the current configuration was loaded from or saved as
+  error: string | null;
+  onLoad: (preset: ScenePreset) => void;
+  onSave: (name: string) => void;
+  onDelete: (name: string) => void;
+  onExport: () => void;
+  onImport: (preset: ScenePreset) => void;
+}
+
+const PresetPanel: React.FC<PresetPanelProps> = ({
+  presets,
+  activeName,
+  error,
+  onLoad,
+  onSave,
+  onDelete,
+  onExport,
+  onImport,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      try {
+        onImport(parsePreset(text));
+        setImportError(null);
+      } catch {
+        setImportError(`${file.name} is not a preset file`);
+      }
+    });
+  };
+
+  return (
+    <div className="pointer-events-auto bg-gray-900/80 backdrop-blur-sm p-4 rounded-xl border border-gray-700 w-72">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between text-xs font-bold uppercase tracking-wide text-gray-400 hover:text-white"
+      >
+        <span>
+          Presets
+          {activeName && <span className="ml-2 normal-case font-normal text-indigo-300">{activeName}</span>}
+        </span>
+        <span>{open ? '▾' : '▸'}</span>
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-2">
+          <select
+            value={activeName ?? ''}
+            onChange={(e) => {
+              const preset = presets.find(p => p.name === e.target.value);
+              if (preset) onLoad(preset);
+            }}
+            className="w-full bg-gray-800 text-xs text-gray-200 rounded-md px-2 py-1 border border-gray-700"
+          >
+            <option value="" disabled>{presets.length > 0 ? 'Switch to preset…' : 'No saved presets'}</option>
+            {presets.map(preset => (
+              <option key={preset.name} value={preset.name}>{preset.name}</option>
+            ))}
+          </select>
+
+          <div className="flex space-x-1">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={activeName ?? 'Preset name, e.g. Gala 2024'}
+              className="flex-1 min-w-0 bg-gray-800 text-xs text-gray-200 rounded-md px-2 py-1 border border-gray-700 focus:outline-none focus:border-indigo-500"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!name.trim()}
+              className="px-3 py-1 rounded-md bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 text-white text-xs font-semibold"
+            >
+              Save
+            </button>
+          </div>
+
+          <div className="flex space-x-2 pt-1">
+            <button
+              onClick={onExport}
+              className="flex-1 py-1 rounded-md bg-gray-800 text-gray-300 hover:bg-gray-700 text-xs"
+            >
+              Export
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex-1 py-1 rounded-md bg-gray-800 text-gray-300 hover:bg-gray-700 text-xs"
+            >
+              Import
+            </button>
+            <button
+              onClick={() => activeName && onDelete(activeName)}
+              disabled={!activeName || !presets.some(p => p.name === activeName)}
+              className="flex-1 py-1 rounded-md bg-gray-800 text-gray-400 hover:bg-red-600 hover:text-white disabled:opacity-40 text-xs"
+            >
+              Delete
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          </div>
+
+          {activeName && (
+            <p className="text-xs text-gray-500">Open this look directly with <span className="font-mono break-all">{presetHash(activeName)}</span></p>
+          )}
+          {(importError || error) && <p className="text-xs text-amber-400">{importError ?? error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PresetPanel;
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { ParticleFill, ParticleMaterialStyle, RenderSettings, SceneSettings } from '../types';
+
+const MATERIALS: { id: ParticleMaterialStyle; label: string }[] = [
+  { id: 'basic', label: 'Flat' },
+  { id: 'lit', label: 'Lit' },
+  { id: 'glow', label: 'Glow' },
+];
+
+const FILLS: { id: ParticleFill; label: string }[] = [
+  { id: 'photos', label: 'Photos' },
+  { id: 'solid', label: 'Solid' },
+  { id: 'gradient', label: 'Gradient' },
+];
+
+interface RenderStylePanelProps {
+  settings: SceneSettings;
+  onChange: (settings: SceneSettings) => void;
+}
+
+const RenderStylePanel: React.FC<RenderStylePanelProps> = ({ settings, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const { render } = settings;
+  const setRender = (changes: Partial<RenderSettings>) => onChange({ ...settings, render: { ...render, ...changes } });
+
+  const optionClass = (active: boolean) =>
+    `flex-1 py-1 rounded-md text-xs ${active ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`;
+
+  return (
+    <div className="pointer-events-auto bg-gray-900/80 backdrop-blur-sm p-4 rounded-xl border border-gray-700 w-72">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between text-xs font-bold uppercase tracking-wide text-gray-400 hover:text-white"
+      >
+        <span>Render Style</span>
+        <span>{open ? '▾' : '▸'}</span>
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-2">
+          <div className="flex space-x-1">
+            {MATERIALS.map(({ id, label }) => (
+              <button key={id} onClick={() => setRender({ material: id })} className={optionClass(render.material === id)}>
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex space-x-1">
+            {FILLS.map(({ id, label }) => (
+              <button key={id} onClick={() => setRender({ fill: id })} className={optionClass(render.fill === id)}>
+                {label}
+              </button>
+            ))}
+          </div>
+          {render.material === 'glow' && render.fill === 'photos' && (
+            <p className="text-xs text-gray-500">Glow points have no texture, photos only set the tint.</p>
+          )}
+
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <label className="flex items-center space-x-2">
+              <input
+                type="color"
+                value={settings.particleColor}
+                onChange={(e) => onChange({ ...settings, particleColor: e.target.value })}
+                className="w-6 h-6 bg-transparent border-0 p-0 cursor-pointer"
+              />
+              <span>Particles</span>
+            </label>
+            {render.fill === 'gradient' && (
+              <label className="flex items-center space-x-2">
+                <input
+                  type="color"
+                  value={render.gradientColor}
+                  onChange={(e) => setRender({ gradientColor: e.target.value })}
+                  className="w-6 h-6 bg-transparent border-0 p-0 cursor-pointer"
+                />
+                <span>to</span>
+              </label>
+            )}
+            <label className="flex items-center space-x-2">
+              <input
+                type="color"
+                value={settings.backgroundColor}
+                onChange={(e) => onChange({ ...settings, backgroundColor: e.target.value })}
+                className="w-6 h-6 bg-transparent border-0 p-0 cursor-pointer"
+              />
+              <span>Background</span>
+            </label>
+          </div>
+
+          <div className="flex justify-between text-xs text-gray-400 pt-1">
+            <label className="flex items-center space-x-1">
+              <input type="checkbox" checked={render.bloom} onChange={(e) => setRender({ bloom: e.target.checked })} className="accent-indigo-500" />
+              <span>Bloom</span>
+            </label>
+            <label className="flex items-center space-x-1">
+              <input type="checkbox" checked={render.trails} onChange={(e) => setRender({ trails: e.target.checked })} className="accent-indigo-500" />
+              <span>Trails</span>
+            </label>
+            <label className="flex items-center space-x-1" title="Colors shift while flowing, particles flare while scattering">
+              <input type="checkbox" checked={render.reactive} onChange={(e) => setRender({ reactive: e.target.checked })} className="accent-indigo-500" />
+              <span>Reactive</span>
+            </label>
+          </div>
+          {render.bloom && (
+            <label className="block text-xs text-gray-400">
+              <span className="flex justify-between">
+                <span>Bloom strength</span>
+                <span className="font-mono text-gray-200">{render.bloomStrength}</span>
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={3}
+                step={0.1}
+                value={render.bloomStrength}
+                onChange={(e) => setRender({ bloomStrength: parseFloat(e.target.value) })}
+                className="w-full accent-indigo-500"
+              />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RenderStylePanel;
@@ -0,0 +1,87 @@
+import React, { useRef, useState } from 'react';
+
+interface SessionControlsProps {
+  isRecording: boolean;
+  playingName: string | null;  // File being replayed, null while the camera is live
+  loop: boolean;
+  error: string | null;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  onPlay: (file: File) => void;
+  onStopPlayback: () => void;
+  onLoopChange: (loop: boolean) => void;
+}
+
+const SessionControls: React.FC<SessionControlsProps> = ({
+  isRecording,
+  playingName,
+  loop,
+  error,
+  onStartRecording,
+  onStopRecording,
+  onPlay,
+  onStopPlayback,
+  onLoopChange,
+}) => {
+  const [open, setOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onPlay(file);
+  };
+
+  return (
+    <div className="pointer-events-auto bg-gray-900/80 backdrop-blur-sm p-4 rounded-xl border border-gray-700 w-72">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between text-xs font-bold uppercase tracking-wide text-gray-400 hover:text-white"
+      >
+        <span>
+          Session Recorder
+          {isRecording && <span className="ml-2 text-red-400 animate-pulse">● REC</span>}
+          {playingName && <span className="ml-2 text-indigo-300">▶ Replay</span>}
+        </span>
+        <span>{open ? '▾' : '▸'}</span>
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-2">
+          <div className="flex space-x-2">
+            <button
+              onClick={isRecording ? onStopRecording : onStartRecording}
+              disabled={playingName !== null}
+              className={`flex-1 py-1 rounded-md text-xs font-semibold transition disabled:opacity-40 ${isRecording ? 'bg-red-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {isRecording ? 'Stop & Save' : 'Record Landmarks'}
+            </button>
+            <button
+              onClick={playingName ? onStopPlayback : () => fileInputRef.current?.click()}
+              disabled={isRecording}
+              className={`flex-1 py-1 rounded-md text-xs font-semibold transition disabled:opacity-40 ${playingName ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {playingName ? 'Stop Replay' : 'Replay File'}
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+          </div>
+
+          <label className="flex items-center space-x-2 text-xs text-gray-400">
+            <input
+              type="checkbox"
+              checked={loop}
+              onChange={(e) => onLoopChange(e.target.checked)}
+              className="accent-indigo-500"
+            />
+            <span>Loop replay</span>
+          </label>
+
+          {playingName && <p className="text-xs text-gray-500 truncate">Replaying {playingName} instead of the camera</p>}
+          {error && <p className="text-xs text-amber-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionControls;
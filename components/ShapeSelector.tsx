@@ -0,0 +1,57 @@
+import React from 'react';
+import { ShapeKind } from '../types';
+
+interface ShapeSelectorProps {
+  playlist: readonly ShapeKind[];
+  activeIndex: number;
+  onSelect: (index: number) => void;
+}
+
+const SHAPE_LABELS: Record<ShapeKind, string> = {
+  text: 'Text',
+  sphere: 'Sphere',
+  heart: 'Heart',
+  grid: 'Grid',
+  image: 'Image',
+};
+
+const ShapeSelector: React.FC<ShapeSelectorProps> = ({ playlist, activeIndex, onSelect }) => {
+  const step = (delta: number) => {
+    onSelect((activeIndex + delta + playlist.length) % playlist.length);
+  };
+
+  return (
+    <div className="pointer-events-auto bg-gray-900/80 backdrop-blur-sm p-4 rounded-xl border border-gray-700 w-72">
+      <label className="block text-xs font-bold mb-2 uppercase tracking-wide text-gray-400">
+        Shape
+      </label>
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={() => step(-1)}
+          className="px-2 py-1 rounded-md bg-gray-800 text-gray-300 hover:bg-gray-700 text-xs"
+        >
+          ◀
+        </button>
+        <div className="flex-1 flex space-x-1">
+          {playlist.map((kind, i) => (
+            <button
+              key={kind}
+              onClick={() => onSelect(i)}
+              className={`flex-1 py-1 rounded-md text-xs font-semibold transition ${i === activeIndex ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`}
+            >
+              {SHAPE_LABELS[kind]}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => step(1)}
+          className="px-2 py-1 rounded-md bg-gray-800 text-gray-300 hover:bg-gray-700 text-xs"
+        >
+          ▶
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ShapeSelector;
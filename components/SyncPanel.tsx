@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { SyncSettings, SyncStatus } from '../types';
+
+interface SyncPanelProps {
+  settings: SyncSettings;
+  onChange: (settings: SyncSettings) => void;
+  status: SyncStatus;
+  peers: number;            // Clients in the room, including this one
+  canBroadcast?: boolean;   // Whether this page has hands to broadcast
+}
+
+const STATUS_LABELS: Record<SyncStatus, { label: string; className: string }> = {
+  off: { label: 'off', className: 'text-gray-500' },
+  connecting: { label: 'connecting…', className: 'text-amber-400' },
+  connected: { label: 'connected', className: 'text-emerald-400' },
+};
+
+// Address of this app with the sync settings, for opening displays and the controller
+const pageLink = (settings: SyncSettings, extra: string) => {
+  const params = new URLSearchParams({ sync: settings.url, room: settings.room });
+  return `${window.location.origin}${window.location.pathname}?${params.toString()}${extra}`;
+};
+
+const SyncPanel: React.FC<SyncPanelProps> = ({ settings, onChange, status, peers, canBroadcast = true }) => {
+  const [open, setOpen] = useState(false);
+  // Address and room are edited here and applied on blur, Enter or Connect, so
+  // typing doesn't reconnect on every keystroke
+  const [draft, setDraft] = useState({ url: settings.url, room: settings.room });
+  const { label, className } = STATUS_LABELS[status];
+
+  useEffect(() => {
+    setDraft({ url: settings.url, room: settings.room });
+  }, [settings.url, settings.room]);
+
+  const applyDraft = () => {
+    if (draft.url !== settings.url || draft.room !== settings.room) onChange({ ...settings, ...draft });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') applyDraft();
+  };
+
+  return (
+    <div className="pointer-events-auto bg-gray-900/80 backdrop-blur-sm p-4 rounded-xl border border-gray-700 w-72">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between text-xs font-bold uppercase tracking-wide text-gray-400 hover:text-white"
+      >
+        <span>
+          Sync
+          {settings.enabled && (
+            <span className={`ml-2 normal-case font-normal ${className}`}>
+              {label}{status === 'connected' && ` · ${peers} in room`}
+            </span>
+          )}
+        </span>
+        <span>{open ? '▾' : '▸'}</span>
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-2">
+          <input
+            type="text"
+            value={draft.url}
+            onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+            onBlur={applyDraft}
+            onKeyDown={handleKeyDown}
+            placeholder="ws://localhost:8787"
+            className="w-full bg-gray-800 text-xs text-gray-200 rounded-md px-2 py-1 border border-gray-700 font-mono focus:outline-none focus:border-indigo-500"
+          />
+          <div className="flex space-x-1">
+            <input
+              type="text"
+              value={draft.room}
+              onChange={(e) => setDraft({ ...draft, room: e.target.value })}
+              onBlur={applyDraft}
+              onKeyDown={handleKeyDown}
+              placeholder="Room"
+              className="flex-1 min-w-0 bg-gray-800 text-xs text-gray-200 rounded-md px-2 py-1 border border-gray-700 focus:outline-none focus:border-indigo-500"
+            />
+            <button
+              onClick={() => onChange({ ...settings, ...draft, enabled: !settings.enabled })}
+              className={`px-3 py-1 rounded-md text-xs font-semibold ${settings.enabled ? 'bg-gray-800 text-gray-300 hover:bg-red-600 hover:text-white' : 'bg-indigo-600 hover:bg-indigo-500 text-white'}`}
+            >
+              {settings.enabled ? 'Disconnect' : 'Connect'}
+            </button>
+          </div>
+          {canBroadcast && (
+            <label className="flex items-center space-x-2 text-xs text-gray-400">
+              <input
+                type="checkbox"
+                checked={settings.broadcast}
+                onChange={(e) => onChange({ ...settings, broadcast: e.target.checked })}
+                className="accent-indigo-500"
+              />
+              <span>Broadcast this tab's hands</span>
+            </label>
+          )}
+
+          <p className="text-xs text-gray-500">
+            Start the relay with <span className="font-mono">npm run relay</span>. Mirroring display:{' '}
+            <a href={pageLink(settings, '&mirror')} target="_blank" rel="noreferrer" className="text-indigo-300 hover:underline">open</a>
+            {' · '}Controller:{' '}
+            <a href={pageLink(settings, '&view=controller')} target="_blank" rel="noreferrer" className="text-indigo-300 hover:underline">open</a>
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncPanel;
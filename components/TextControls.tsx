@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { TextSettings } from '../types';
+import { FONT_OPTIONS, SCENE_CONFIG } from '../constants';
+import { TEXT_RANGES } from '../services/presets';
+
+interface TextControlsProps {
+  settings: TextSettings;
+  onChange: (settings: TextSettings) => void;
+}
+
+const TextControls: React.FC<TextControlsProps> = ({ settings, onChange }) => {
+  const update = <K extends keyof TextSettings>(key: K, value: TextSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  // Every change rebuilds the particles, so typed text is applied once typing pauses
+  const [draft, setDraft] = useState(settings.text);
+
+  useEffect(() => {
+    setDraft(settings.text);
+  }, [settings.text]);
+
+  useEffect(() => {
+    if (draft === settings.text) return;
+    const timer = setTimeout(() => update('text', draft), SCENE_CONFIG.TEXT_INPUT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draft, settings]);
+
+  const flushDraft = () => {
+    if (draft !== settings.text) update('text', draft);
+  };
+
+  return (
+    <div className="pointer-events-auto bg-gray-900/80 backdrop-blur-sm p-4 rounded-xl border border-gray-700 w-72">
+      <label className="block text-xs font-bold mb-2 uppercase tracking-wide text-gray-400">
+        Particle Text
+      </label>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={flushDraft}
+        rows={2}
+        className="block w-full bg-gray-800 text-sm text-white rounded-md px-3 py-2 border border-gray-700 focus:outline-none focus:border-indigo-500 resize-none"
+      />
+
+      <div className="grid grid-cols-2 gap-2 mt-3">
+        <select
+          value={settings.fontFamily}
+          onChange={(e) => update('fontFamily', e.target.value)}
+          className="bg-gray-800 text-xs text-gray-200 rounded-md px-2 py-1 border border-gray-700"
+        >
+          {FONT_OPTIONS.FAMILIES.map(family => (
+            <option key={family} value={family}>{family}</option>
+          ))}
+        </select>
+        <select
+          value={settings.fontWeight}
+          onChange={(e) => update('fontWeight', e.target.value)}
+          className="bg-gray-800 text-xs text-gray-200 rounded-md px-2 py-1 border border-gray-700"
+        >
+          {FONT_OPTIONS.WEIGHTS.map(weight => (
+            <option key={weight} value={weight}>{weight}</option>
+          ))}
+        </select>
+      </div>
+
+      <label className="flex items-center justify-between text-xs text-gray-400 mt-3">
+        <span>Size</span>
+        <span className="font-mono">{settings.fontSize}px</span>
+      </label>
+      <input
+        type="range"
+        min={TEXT_RANGES.fontSize[0]}
+        max={TEXT_RANGES.fontSize[1]}
+        step={10}
+        value={settings.fontSize}
+        onChange={(e) => update('fontSize', Number(e.target.value))}
+        className="w-full accent-indigo-500"
+      />
+
+      <label className="flex items-center justify-between text-xs text-gray-400 mt-2">
+        <span>Line Spacing</span>
+        <span className="font-mono">{settings.lineHeight.toFixed(1)}×</span>
+      </label>
+      <input
+        type="range"
+        min={TEXT_RANGES.lineHeight[0]}
+        max={TEXT_RANGES.lineHeight[1]}
+        step={0.1}
+        value={settings.lineHeight}
+        onChange={(e) => update('lineHeight', Number(e.target.value))}
+        className="w-full accent-indigo-500"
+      />
+    </div>
+  );
+};
+
+export default TextControls;
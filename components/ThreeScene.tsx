@@ -1,107 +1,177 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useImperativeHandle, forwardRef } from 'react';
 import * as THREE from 'three';
-import { SCENE_CONFIG, CAMERA_LIMITS, PHYSICS } from '../constants';
-import { HandGesture } from '../types';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { AfterimagePass } from 'three/examples/jsm/postprocessing/AfterimagePass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { SCENE_CONFIG, MORPH, MOSAIC, ATLAS, HAND_CONTROL, TWO_HAND, MOTION, BINDINGS, RENDER_STYLE, SIMULATION, ATTRACT, AUDIO } from '../constants';
+import { AttractCue, AudioRoute, CameraMode, GestureAction, GestureBinding, HandGesture, SceneSettings, ShapeTarget, SoundCue, TextureMode, TrackedHand } from '../types';
+import { computeTwoHandState } from '../services/gestureRecognition';
+import { getBoundActions } from '../services/gestureBindings';
+import { generateShapeParticles } from '../services/particleLayout';
+import { MorphParticle, createSettledParticle, retargetParticles, stepMorph, finishMorph } from '../services/shapeMorph';
+import { computeMosaicUvRects } from '../services/mosaic';
+import { createParticleUniforms, createParticleMaterial, createParticleAttributes, FILL_COLOR_MODES } from '../services/particleMaterial';
+import {
+  ParticleForce,
+  createParticleSimulation,
+  springForce,
+  dragForce,
+  gravityForce,
+  explosionForce,
+  turbulenceForce,
+  vortexForce,
+  repulsorForce,
+} from '../services/particleSimulation';
+import { AtlasTile, loadImage, packAtlases, createBlankPage, createDefaultImage } from '../services/textureAtlas';
+import { renderSnapshot } from '../services/sceneCapture';
+import { AudioAnalyzer } from '../services/audioAnalyzer';
 
 interface ThreeSceneProps {
-  gesture: HandGesture;
+  // Tracked hands; the first one drives the single-hand gestures
+  hands: TrackedHand[];
+  cameraMode: CameraMode;
   uploadedTextures: string[];
+  mosaicImage: string | null;
+  textureMode: TextureMode;
+  shapeTarget: ShapeTarget;
+  // Which gestures drive which continuous actions
+  bindings: GestureBinding[];
+  // Colors, physics and camera limits (from the active preset)
+  settings: SceneSettings;
+  // Idle choreography; drives the scene while no hand is present
+  attract: AttractCue | null;
+  // Playing music or microphone; drives flow, scatter and scale through settings.audio
+  audio: AudioAnalyzer | null;
+  // Called when a hand starts pushing/pulling the camera or scattering the particles
+  onSoundCue?: (cue: SoundCue) => void;
 }
 
-interface ParticleData {
-  x: number;
-  y: number;
-  z: number;
-  vx: number;
-  vy: number;
-  vz: number;
-  // Which mesh group this particle belongs to
+// Render performance, for the tuning panel readout
+export interface SceneStats {
+  fps: number;
+  particles: number;
+}
+
+// Capture and stats access for the parent
+export interface ThreeSceneHandle {
+  snapshot: (width: number, height: number) => Promise<Blob>;
+  getCanvas: () => HTMLCanvasElement | null;
+  getStats: () => SceneStats;
+}
+
+interface ParticleData extends MorphParticle {
+  // Which uploaded image (atlas tile) this particle shows (-1 = not assigned yet)
+  imageIndex: number;
+  // Which mesh (atlas page) this particle belongs to
   meshIndex: number;
   // Index within that specific instance mesh
   instanceIndex: number;
 }
 
-const ThreeScene: React.FC<ThreeSceneProps> = ({ gesture, uploadedTextures }) => {
+const ThreeScene = forwardRef<ThreeSceneHandle, ThreeSceneProps>(({ hands, cameraMode, uploadedTextures, mosaicImage, textureMode, shapeTarget, bindings, settings, attract, audio, onSoundCue }, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
+  // Bloom and trails; only rendered through while one of them is on
+  const postRef = useRef<{ composer: EffectComposer; bloom: UnrealBloomPass; trails: AfterimagePass } | null>(null);
   
-  // Store multiple meshes (one per texture)
+  // Store multiple meshes (one per atlas page, usually just one)
   const meshesRef = useRef<THREE.InstancedMesh[]>([]);
   // Store the container group for meshes to easy cleanup
   const meshGroupRef = useRef<THREE.Group | null>(null);
+  // Ring marking the fingertip cursor in 3D
+  const cursorRef = useRef<THREE.Mesh | null>(null);
 
   // Physics State
   const stateRef = useRef({
-    cameraZ: CAMERA_LIMITS.DEFAULT_Z,
+    cameraZ: settings.camera.defaultZ,
     velocityZ: 0,
+    // Smoothed camera orbit angles (hand camera mode)
+    orbitYaw: 0,
+    orbitPitch: 0,
+    // Smoothed cursor influence, eased in/out as the hand appears/disappears
+    cursorStrength: 0,
+    // Two-hand scale/rotation of the particle group, and the pose when both hands appeared
+    groupScale: 1,
+    groupRotation: 0,
+    twoHandStart: null as { spread: number; angle: number; scale: number; rotation: number } | null,
+    // Pinch-drag tilt of the group and the swirl emitted by stirring
+    dragYaw: 0,
+    dragPitch: 0,
+    vortexStrength: 0,
+    // Spin around the vertical axis from a ROTATE binding
+    spinAngle: 0,
+    // Attract mode drift, eased in and out so a hand takes over without a jump
+    attractAmount: 0,
+    driftYaw: 0,
     scatterAmount: 0,
     flowAmount: 0, // Track intensity of the flowing effect
     scaleMultiplier: 1,
+    // Music: a beat's scatter burst (fading out) and the band-driven particle size
+    audioPulse: 0,
+    audioScale: 1,
+    // Whether the hand was pushing/pulling or scattering last frame, for the sound cues
+    wasZooming: false,
+    wasScattering: false,
+    // The simulation has settled and is skipped until a force acts again
+    particlesAtRest: true,
     // All particles with their assigned mesh/instance indices
     particles: [] as ParticleData[],
+    // Timestamp of the running shape transition (null = settled)
+    morphStart: null as number | null,
   });
 
+  // Shader uniforms shared by every particle material (per-particle math runs on the GPU)
+  const uniformsRef = useRef(createParticleUniforms());
+  // Spring/force simulation of each particle's displacement, indexed like stateRef.particles
+  const simulationRef = useRef(createParticleSimulation());
+  // The offsets on the GPU are stale (new meshes, or the particles are still moving)
+  const offsetsDirtyRef = useRef(true);
+  // Latest settings for the scene setup and the animation loop
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  // Frames rendered since the FPS was last measured
+  const statsRef = useRef({ fps: 0, frames: 0, since: performance.now() });
+
+  // Atlas pages currently backing the meshes; loaded textures are cached so rebuilds don't reload them
+  const atlasPagesRef = useRef<{ texture: THREE.Texture; tiles: AtlasTile[] }[]>([]);
+  const textureModeRef = useRef<TextureMode>(textureMode);
+  const textureCacheRef = useRef(new Map<string, THREE.Texture>());
+
   // --- 1. Texture Loading Helper ---
   const loadTexture = (url: string): THREE.Texture => {
-    const loader = new THREE.TextureLoader();
-    const tex = loader.load(url);
-    return tex;
-  };
+    const cache = textureCacheRef.current;
+    const cached = cache.get(url);
+    if (cached) {
+      // Re-insert so the Map's order runs from least to most recently used
+      cache.delete(url);
+      cache.set(url, cached);
+      return cached;
+    }
 
-  // --- 2. Text Particle Generation (Raw Data) ---
-  const generateRawParticlePositions = () => {
-    const canvas = document.createElement('canvas');
-    canvas.width = SCENE_CONFIG.CANVAS_WIDTH;
-    canvas.height = SCENE_CONFIG.CANVAS_HEIGHT;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return [];
-
-    // Background Black
-    ctx.fillStyle = '#000000';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-    // Text White
-    ctx.fillStyle = '#FFFFFF';
-    ctx.font = `bold ${SCENE_CONFIG.FONT_SIZE}px Arial`;
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.fillText(SCENE_CONFIG.TEXT, canvas.width / 2, canvas.height / 2);
-
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const rawParticles = [];
-    
-    // Scan pixel data
-    for (let y = 0; y < canvas.height; y += SCENE_CONFIG.PARTICLE_GAP) {
-      for (let x = 0; x < canvas.width; x += SCENE_CONFIG.PARTICLE_GAP) {
-        const index = (y * canvas.width + x) * 4;
-        const r = imageData.data[index];
-        
-        // If pixel is bright enough
-        if (r > 128) {
-          rawParticles.push({
-            x: (x - canvas.width / 2) * SCENE_CONFIG.PARTICLE_SIZE,
-            y: (canvas.height / 2 - y) * SCENE_CONFIG.PARTICLE_SIZE, // Flip Y
-            z: 0,
-            vx: (Math.random() - 0.5) * 0.5,
-            vy: (Math.random() - 0.5) * 0.5,
-            vz: (Math.random() - 0.5) * 0.5,
-          });
-        }
-      }
+    const loader = new THREE.TextureLoader();
+    // The mosaic crop depends on the image's aspect ratio, only known once loaded
+    const tex = loader.load(url, () => updateMosaicUvs());
+    cache.set(url, tex);
+    if (cache.size > MOSAIC.TEXTURE_CACHE_SIZE) {
+      const [oldestUrl, oldest] = cache.entries().next().value!;
+      cache.delete(oldestUrl);
+      oldest.dispose();
     }
-    return rawParticles;
+    return tex;
   };
 
-  // --- 3. Scene Initialization (Run Once) ---
+  // --- 2. Scene Initialization (Run Once) ---
   useEffect(() => {
     if (!containerRef.current) return;
 
     // A. Basics
     const scene = new THREE.Scene();
-    scene.background = new THREE.Color(SCENE_CONFIG.BG_COLOR);
-    scene.fog = new THREE.FogExp2(SCENE_CONFIG.BG_COLOR, 0.02);
+    scene.background = new THREE.Color(settingsRef.current.backgroundColor);
+    scene.fog = new THREE.FogExp2(settingsRef.current.backgroundColor, 0.02);
 
     const camera = new THREE.PerspectiveCamera(
       75,
@@ -109,7 +179,7 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ gesture, uploadedTextures }) =>
       0.1,
       1000
     );
-    camera.position.z = CAMERA_LIMITS.DEFAULT_Z;
+    camera.position.z = settingsRef.current.camera.defaultZ;
 
     const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: false });
     renderer.setSize(window.innerWidth, window.innerHeight);
@@ -128,6 +198,30 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ gesture, uploadedTextures }) =>
     scene.add(meshGroup);
     meshGroupRef.current = meshGroup;
 
+    // D. Fingertip cursor
+    const cursor = new THREE.Mesh(
+      new THREE.RingGeometry(0.35, 0.5, 32),
+      new THREE.MeshBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.6, depthTest: false }),
+    );
+    cursor.visible = false;
+    scene.add(cursor);
+    cursorRef.current = cursor;
+
+    // E. Post-processing (trails feed into the bloom so the streaks glow too)
+    const composer = new EffectComposer(renderer);
+    composer.addPass(new RenderPass(scene, camera));
+    const trails = new AfterimagePass(RENDER_STYLE.TRAIL_DAMP);
+    composer.addPass(trails);
+    const bloom = new UnrealBloomPass(
+      new THREE.Vector2(window.innerWidth, window.innerHeight),
+      RENDER_STYLE.BLOOM_STRENGTH,
+      RENDER_STYLE.BLOOM_RADIUS,
+      RENDER_STYLE.BLOOM_THRESHOLD,
+    );
+    composer.addPass(bloom);
+    composer.addPass(new OutputPass());
+    postRef.current = { composer, bloom, trails };
+
     // Store refs
     sceneRef.current = scene;
     cameraRef.current = camera;
@@ -135,182 +229,545 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ gesture, uploadedTextures }) =>
 
   }, []);
 
-  // --- 4. Handle Particle & Mesh Reconstruction when Textures Change ---
-  useEffect(() => {
-    if (!meshGroupRef.current) return;
+  // --- 3. Mesh Reconstruction ---
+  // Rebuilds the InstancedMeshes around the particles without touching their positions,
+  // so it can run mid-transition without any visible jump.
+  const rebuildMeshes = (reassignAll: boolean) => {
+    const meshGroup = meshGroupRef.current;
+    if (!meshGroup) return;
 
     // 1. Cleanup old meshes
-    meshGroupRef.current.clear();
+    meshesRef.current.forEach(mesh => {
+      mesh.geometry.dispose();
+      mesh.material.dispose();
+    });
+    meshGroup.clear();
     meshesRef.current = [];
 
-    // 2. Determine Textures to use
-    const texturesToUse = uploadedTextures.length > 0 
-      ? uploadedTextures 
-      : ['https://picsum.photos/64/64']; // Default placeholder
-
-    // 3. Generate Base Particles (if not done or static)
-    const rawParticles = generateRawParticlePositions();
-    
-    // 4. Distribute Particles to Meshes
-    const particlesPerMesh: typeof rawParticles[] = texturesToUse.map(() => []);
-    
-    // Assign each particle to a texture group randomly
-    const finalParticles: ParticleData[] = [];
-
-    rawParticles.forEach((p) => {
-      const meshIndex = Math.floor(Math.random() * texturesToUse.length);
-      particlesPerMesh[meshIndex].push(p);
-      
-      finalParticles.push({
-        ...p,
-        meshIndex,
-        instanceIndex: particlesPerMesh[meshIndex].length - 1
-      });
+    const pages = atlasPagesRef.current;
+    const particles = stateRef.current.particles;
+    if (pages.length === 0) return;
+    const { render } = settingsRef.current;
+
+    // Flat image index -> (page, tile) lookup
+    const tileLookup = pages.flatMap((page, pageIndex) => page.tiles.map(tile => ({ pageIndex, tile })));
+
+    // 2. Assign each particle to an image randomly (keeping existing assignments)
+    const counts = pages.map(() => 0);
+    particles.forEach((p) => {
+      if (reassignAll || p.imageIndex < 0 || p.imageIndex >= tileLookup.length) {
+        p.imageIndex = Math.floor(Math.random() * tileLookup.length);
+      }
+      p.meshIndex = tileLookup[p.imageIndex].pageIndex;
+      p.instanceIndex = counts[p.meshIndex]++;
     });
 
-    stateRef.current.particles = finalParticles;
+    // 3. Create one InstancedMesh per atlas page
+    const attributesPerMesh: ReturnType<typeof createParticleAttributes>[] = [];
+    pages.forEach((page, i) => {
+      if (counts[i] === 0) return;
+
+      const geometry = new THREE.PlaneGeometry(SCENE_CONFIG.PARTICLE_SIZE * 4, SCENE_CONFIG.PARTICLE_SIZE * 4);
+      const material = createParticleMaterial(
+        render.material,
+        render.fill === 'photos' ? page.texture : null,
+        particleTint(),
+        uniformsRef.current,
+      );
+      attributesPerMesh[i] = createParticleAttributes(geometry, counts[i]);
+
+      const mesh = new THREE.InstancedMesh(geometry, material, counts[i]);
+      // Enables the instance color path in the shader; the actual tint comes from aColorFrom/aColorTo
+      mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(counts[i] * 3).fill(1), 3);
+      // Instances are positioned in the vertex shader, so the default bounds are meaningless
+      mesh.frustumCulled = false;
+      meshGroup.add(mesh);
+      meshesRef.current[i] = mesh;
+    });
 
-    // 5. Create InstancedMeshes
-    const geometry = new THREE.PlaneGeometry(SCENE_CONFIG.PARTICLE_SIZE * 4, SCENE_CONFIG.PARTICLE_SIZE * 4);
-    
-    texturesToUse.forEach((url, i) => {
-      const count = particlesPerMesh[i].length;
-      if (count === 0) return; 
+    // 4. Upload every particle's transition, scatter direction, tint and atlas tile
+    const color = new THREE.Color();
+    particles.forEach((p) => {
+      const attributes = attributesPerMesh[p.meshIndex];
+      const i3 = p.instanceIndex * 3;
+      const { tile } = tileLookup[p.imageIndex];
+
+      attributes.aFrom.array.set([p.fromX, p.fromY, p.fromZ], i3);
+      attributes.aTo.array.set([p.toX, p.toY, p.toZ], i3);
+      attributes.aVelocity.array.set([p.vx, p.vy, p.vz], i3);
+      attributes.aMorph.array.set([p.delay, p.fromScale, p.toScale], i3);
+      // Sampled image colors are sRGB
+      color.setRGB(p.fromR, p.fromG, p.fromB, THREE.SRGBColorSpace);
+      attributes.aColorFrom.array.set([color.r, color.g, color.b], i3);
+      color.setRGB(p.toR, p.toG, p.toB, THREE.SRGBColorSpace);
+      attributes.aColorTo.array.set([color.r, color.g, color.b], i3);
+      attributes.instanceUvRect.array.set([tile.u, tile.v, tile.width, tile.height], p.instanceIndex * 4);
+    });
 
-      const material = new THREE.MeshBasicMaterial({
-        color: SCENE_CONFIG.DEFAULT_COLOR,
-        side: THREE.DoubleSide,
-        transparent: true,
-        map: loadTexture(url),
+    // Forces see every particle at the end of its transition, which is close enough mid-morph
+    const simulation = simulationRef.current;
+    simulation.resize(particles.length);
+    particles.forEach((p, i) => simulation.setParticle(i, [p.toX, p.toY, p.toZ], [p.vx, p.vy, p.vz]));
+    offsetsDirtyRef.current = true;
+
+    // The gradient spans the layout from its leftmost to its rightmost particle
+    if (particles.length > 0) {
+      let minX = Infinity;
+      let maxX = -Infinity;
+      particles.forEach(p => {
+        minX = Math.min(minX, p.fromX, p.toX);
+        maxX = Math.max(maxX, p.fromX, p.toX);
       });
+      uniformsRef.current.uGradientRange.value.set(minX, maxX);
+    }
+
+    updateMosaicUvs();
+  };
+
+  // Photos are tinted by the particle color; solid and gradient fills color the particles in the shader
+  const particleTint = () => {
+    const { render, particleColor } = settingsRef.current;
+    return render.fill === 'photos' ? particleColor : 0xffffff;
+  };
+
+  // In mosaic mode every particle shows the tile of the photo under its spot in the layout
+  const updateMosaicUvs = () => {
+    const mesh = meshesRef.current[0];
+    if (textureModeRef.current !== 'mosaic' || !mesh) return;
+
+    const image = mesh.material.map?.image;
+    const aspect = image && image.height > 0 ? image.width / image.height : 1;
+    const rects = computeMosaicUvRects(stateRef.current.particles, aspect);
+
+    const attribute = mesh.geometry.getAttribute('instanceUvRect');
+    stateRef.current.particles.forEach((p, i) => {
+      attribute.setXYZW(p.instanceIndex, rects[i * 4], rects[i * 4 + 1], rects[i * 4 + 2], rects[i * 4 + 3]);
+    });
+    attribute.needsUpdate = true;
+  };
 
-      const mesh = new THREE.InstancedMesh(geometry, material, count);
-      meshGroupRef.current?.add(mesh);
-      meshesRef.current.push(mesh);
+  // Copies the simulated displacements into each mesh's aOffset attribute
+  const uploadOffsets = () => {
+    const meshes = meshesRef.current;
+    const { offset, count } = simulationRef.current.state;
+    const targets = meshes.map(mesh => mesh?.geometry.getAttribute('aOffset'));
+    const particles = stateRef.current.particles;
+    for (let i = 0; i < Math.min(count, particles.length); i++) {
+      const attribute = targets[particles[i].meshIndex];
+      if (!attribute) continue;
+      const j = particles[i].instanceIndex * 3;
+      attribute.array[j] = offset[i * 3];
+      attribute.array[j + 1] = offset[i * 3 + 1];
+      attribute.array[j + 2] = offset[i * 3 + 2];
+    }
+    targets.forEach(attribute => {
+      if (attribute) attribute.needsUpdate = true;
+    });
+  };
+
+  // Frees atlas textures that were generated for the previous photo set
+  const releaseAtlasPages = () => {
+    atlasPagesRef.current.forEach(page => {
+      if (page.texture.isCanvasTexture) page.texture.dispose();
+    });
+    atlasPagesRef.current = [];
+  };
+
+  // --- 4. Swap Textures (keeps particle positions) ---
+  useEffect(() => {
+    textureModeRef.current = textureMode;
+
+    if (textureMode === 'mosaic') {
+      // One photo across the whole layout, so a single page with one full-size tile
+      releaseAtlasPages();
+      atlasPagesRef.current = [{
+        texture: loadTexture(mosaicImage ?? createDefaultImage(MOSAIC.DEFAULT_SIZE)),
+        tiles: [{ u: 0, v: 0, width: 1, height: 1 }],
+      }];
+      rebuildMeshes(true);
+      return;
+    }
+
+    const urls = uploadedTextures.length > 0
+      ? uploadedTextures
+      : [createDefaultImage(ATLAS.DEFAULT_SIZE)]; // Default placeholder
+
+    // Pack every photo into shared atlas pages so all particles render in one draw call per page
+    let cancelled = false;
+    Promise.allSettled(urls.map(loadImage)).then(results => {
+      if (cancelled) return;
+      const images = results
+        .filter((r): r is PromiseFulfilledResult<HTMLImageElement> => r.status === 'fulfilled')
+        .map(r => r.value);
+
+      releaseAtlasPages();
+      const pages = images.length > 0 ? packAtlases(images) : [createBlankPage()];
+      atlasPagesRef.current = pages.map(page => ({
+        texture: new THREE.CanvasTexture(page.canvas),
+        tiles: page.tiles,
+      }));
+      rebuildMeshes(true);
     });
 
-  }, [uploadedTextures]);
+    return () => { cancelled = true; };
+  }, [uploadedTextures, mosaicImage, textureMode]);
+
+  // Free the GPU copies of every texture when the scene goes away
+  useEffect(() => () => {
+    releaseAtlasPages();
+    textureCacheRef.current.forEach(texture => texture.dispose());
+    textureCacheRef.current.clear();
+  }, []);
+
+  // Color changes (e.g. switching presets) apply in place
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (scene) {
+      scene.background.set(settings.backgroundColor);
+      scene.fog.color.set(settings.backgroundColor);
+    }
+    const uniforms = uniformsRef.current;
+    uniforms.uColorMode.value = FILL_COLOR_MODES[settings.render.fill];
+    uniforms.uColorA.value.set(settings.particleColor);
+    uniforms.uColorB.value.set(settings.render.gradientColor);
+    meshesRef.current.forEach(mesh => mesh?.material.color.set(particleTint()));
+  }, [settings.backgroundColor, settings.particleColor, settings.render.fill, settings.render.gradientColor]);
+
+  // A different material or fill needs new materials, the particles stay where they are
+  const renderStyleRef = useRef({ material: settings.render.material, fill: settings.render.fill });
+  useEffect(() => {
+    const previous = renderStyleRef.current;
+    if (previous.material === settings.render.material && previous.fill === settings.render.fill) return;
+    renderStyleRef.current = { material: settings.render.material, fill: settings.render.fill };
+    rebuildMeshes(false);
+  }, [settings.render.material, settings.render.fill]);
 
+  // --- 5. Morph to a New Shape Target ---
+  useEffect(() => {
+    const state = stateRef.current;
+    const layout = generateShapeParticles(shapeTarget);
 
-  // --- 5. Animation Loop (Active Effect) ---
-  const latestGestureRef = useRef(gesture);
-  useEffect(() => { latestGestureRef.current = gesture; }, [gesture]);
+    if (state.morphStart !== null) {
+      // Interrupted mid-flight: bring the CPU copy up to where the GPU has moved them
+      stepMorph(state.particles, uniformsRef.current.uMorphProgress.value);
+    }
+
+    if (state.particles.length === 0) {
+      // First layout: appear in place
+      state.particles = layout.map(p => ({ ...createSettledParticle(p), imageIndex: -1, meshIndex: 0, instanceIndex: 0 }));
+      state.morphStart = null;
+    } else {
+      // Particles keep their image assignment; newly spawned ones get one in rebuildMeshes
+      state.particles = retargetParticles(state.particles, layout).map(p => ({
+        imageIndex: -1,
+        meshIndex: 0,
+        instanceIndex: 0,
+        ...p,
+      }));
+      state.morphStart = Date.now();
+    }
+
+    uniformsRef.current.uMorphProgress.value = state.morphStart === null ? 1 : 0;
+    rebuildMeshes(false);
+  }, [shapeTarget]);
+
+  // --- 6. Animation Loop (Active Effect) ---
+  const latestHandsRef = useRef(hands);
+  useEffect(() => { latestHandsRef.current = hands; }, [hands]);
+  const cameraModeRef = useRef(cameraMode);
+  useEffect(() => { cameraModeRef.current = cameraMode; }, [cameraMode]);
+  const bindingsRef = useRef(bindings);
+  useEffect(() => { bindingsRef.current = bindings; }, [bindings]);
+  const attractRef = useRef(attract);
+  useEffect(() => { attractRef.current = attract; }, [attract]);
+  const audioRef = useRef(audio);
+  useEffect(() => { audioRef.current = audio; }, [audio]);
+  const onSoundCueRef = useRef(onSoundCue);
+  useEffect(() => { onSoundCueRef.current = onSoundCue; }, [onSoundCue]);
 
   useEffect(() => {
-    const dummy = new THREE.Object3D();
+    const startTime = Date.now();
+    const cursorRay = new THREE.Vector3();
+    const cursorWorld = new THREE.Vector3();
+    const cursorLocal = new THREE.Vector3();
+    let lastFrame = performance.now();
     let reqId: number;
 
     const animate = () => {
       if (!cameraRef.current || !rendererRef.current || !sceneRef.current) return;
       
-      const gesture = latestGestureRef.current;
+      const hands = latestHandsRef.current;
+      const gesture = hands.length > 0 ? hands[0].gesture : HandGesture.NONE;
+      const hand = hands.length > 0 ? hands[0].state : null;
+      // Continuous actions bound to the held gesture, or the choreography's while nobody is there
+      const attract = hands.length === 0 ? attractRef.current : null;
+      const actions = new Set(attract ? attract.actions : getBoundActions(bindingsRef.current, gesture));
       const state = stateRef.current;
       const camera = cameraRef.current;
+      const { physics, camera: limits, render, audio: audioSettings } = settingsRef.current;
+      const time = (Date.now() - startTime) * 0.001;
+      const now = performance.now();
+      const dt = Math.min((now - lastFrame) / 1000, SIMULATION.MAX_STEP);
+      lastFrame = now;
 
       // --- Camera Physics ---
-      if (gesture === HandGesture.FIST) {
-        state.velocityZ += PHYSICS.PULL_ACCELERATION;
-      } else if (gesture === HandGesture.OPEN_PALM) {
-        // Reduced force from 0.5 to 0.05 for much gentler start (Ease-in feel)
-        state.velocityZ -= 0.05; 
-      }
-      
-      // Always apply friction/damping to prevent infinite acceleration
-      // This ensures "Fast then Slow" if input stops, but also limits max speed during input
-      state.velocityZ *= 0.96; 
+      const handCamera = cameraModeRef.current === 'hand';
 
-      state.cameraZ += state.velocityZ;
+      if (handCamera) {
+        // Real proximity sets the distance directly: closer hand, closer camera
+        if (hand) {
+          const targetZ = THREE.MathUtils.lerp(limits.maxZ, limits.minZ, hand.proximity);
+          state.cameraZ = THREE.MathUtils.lerp(state.cameraZ, targetZ, HAND_CONTROL.PROXIMITY_LERP);
+        }
+        state.velocityZ = 0;
+      } else {
+        if (actions.has(GestureAction.ZOOM_OUT)) {
+          state.velocityZ += physics.pullAcceleration;
+        }
+        if (actions.has(GestureAction.ZOOM_IN)) {
+          // Much smaller than the pull for a gentler start (Ease-in feel)
+          state.velocityZ -= physics.pushAcceleration;
+        }
+        
+        // Always apply friction/damping to prevent infinite acceleration
+        // This ensures "Fast then Slow" if input stops, but also limits max speed during input
+        state.velocityZ *= physics.damping;
+
+        state.cameraZ += state.velocityZ;
+      }
 
       // Limits
-      if (state.cameraZ > CAMERA_LIMITS.MAX_Z) {
-        state.cameraZ = CAMERA_LIMITS.MAX_Z;
+      if (state.cameraZ > limits.maxZ) {
+        state.cameraZ = limits.maxZ;
         state.velocityZ = 0;
       }
-      if (state.cameraZ < CAMERA_LIMITS.MIN_Z) {
-        state.cameraZ = CAMERA_LIMITS.MIN_Z;
+      if (state.cameraZ < limits.minZ) {
+        state.cameraZ = limits.minZ;
         state.velocityZ = 0; 
       }
 
-      camera.position.z = THREE.MathUtils.lerp(camera.position.z, state.cameraZ, 0.1);
+      // Orbit follows the palm (centered palm = straight on); eases back without a hand
+      const targetYaw = handCamera && hand ? (hand.palmX - 0.5) * 2 * HAND_CONTROL.ORBIT_YAW : 0;
+      const targetPitch = handCamera && hand ? (hand.palmY - 0.5) * 2 * HAND_CONTROL.ORBIT_PITCH : 0;
+      state.orbitYaw = THREE.MathUtils.lerp(state.orbitYaw, targetYaw, HAND_CONTROL.ORBIT_LERP);
+      state.orbitPitch = THREE.MathUtils.lerp(state.orbitPitch, targetPitch, HAND_CONTROL.ORBIT_LERP);
+
+      const distance = THREE.MathUtils.lerp(camera.position.length(), state.cameraZ, 0.1);
+      camera.position.set(
+        Math.sin(state.orbitYaw) * Math.cos(state.orbitPitch) * distance,
+        Math.sin(state.orbitPitch) * distance,
+        Math.cos(state.orbitYaw) * Math.cos(state.orbitPitch) * distance,
+      );
       camera.lookAt(0, 0, 0);
 
       // --- Particle Logic ---
-      
-      // 1. Flow Logic (Activated by OPEN_PALM)
-      const isFlowing = gesture === HandGesture.OPEN_PALM;
-      // Reduced lerp speed from 0.05 to 0.015. 
-      // This creates a very slow, smooth entry into the wave effect ("刚张开手掌的时候就慢一点").
-      state.flowAmount = THREE.MathUtils.lerp(state.flowAmount, isFlowing ? 1 : 0, 0.015);
 
-      // 2. Scatter Logic (Activated by Close Proximity + OPEN_PALM)
-      const shouldScatter = state.cameraZ < 10 && gesture === HandGesture.OPEN_PALM;
-      state.scatterAmount = THREE.MathUtils.lerp(state.scatterAmount, shouldScatter ? 1 : 0, 0.05);
+      // Music levels for the routed bands (0 while nothing is playing)
+      const audioFrame = audioRef.current?.sample(now) ?? null;
+      const { routes } = audioSettings;
+      const audioLevel = (route: AudioRoute) =>
+        audioFrame && route.band !== 'off' ? audioFrame.levels[route.band] * route.amount : 0;
+
+      // 1. Flow Logic
+      const isFlowing = actions.has(GestureAction.FLOW);
+      const flowFromAudio = audioLevel(routes.flow);
+      // A low lerp speed creates a very slow, smooth entry into the wave effect ("刚张开手掌的时候就慢一点").
+      // Music needs to be followed closely to stay on the beat.
+      state.flowAmount = THREE.MathUtils.lerp(
+        state.flowAmount,
+        Math.max(isFlowing ? 1 : 0, flowFromAudio),
+        flowFromAudio > 0 ? AUDIO.FOLLOW_LERP : physics.flowLerp,
+      );
+
+      // 2. Scatter Logic (only once the camera is close, the choreography scatters from anywhere)
+      const shouldScatter = (state.cameraZ < physics.scatterTriggerZ || attract !== null) && actions.has(GestureAction.SCATTER);
+      // A beat in the routed band bursts the particles wherever the camera is
+      state.audioPulse *= Math.exp(-AUDIO.PULSE_DECAY * dt);
+      if (audioFrame && routes.scatter.band !== 'off' && audioFrame.beats[routes.scatter.band]) {
+        state.audioPulse = Math.max(state.audioPulse, routes.scatter.amount);
+      }
+      state.scatterAmount = THREE.MathUtils.lerp(state.scatterAmount, Math.max(shouldScatter ? 1 : 0, state.audioPulse), 0.05);
 
       // 3. Scale Logic
-      const targetScale = gesture === HandGesture.OK_SIGN ? PHYSICS.OK_SCALE_MULTIPLIER : 1;
+      const targetScale = actions.has(GestureAction.SCALE) ? physics.scaleMultiplier : 1;
       state.scaleMultiplier = THREE.MathUtils.lerp(state.scaleMultiplier, targetScale, 0.1);
-
-      const time = Date.now() * 0.001;
-
-      // Update every particle
-      for (let i = 0; i < state.particles.length; i++) {
-        const p = state.particles[i];
-        
-        // Base Position
-        let x = p.x;
-        let y = p.y;
-        let z = p.z;
-        
-        let rotX = 0;
-        let rotY = 0;
-        let rotZ = 0;
-
-        // Apply Flow/Wave (Liquid Rolling Effect)
-        if (state.flowAmount > 0.001) {
-            // Keep wave speed slow (0.2)
-            const wavePhase = p.x * 0.08 - time * 0.2;
-            
-            // Z-axis displacement (Depth wave)
-            z += Math.sin(wavePhase) * 5.0 * state.flowAmount;
-            
-            // Y-axis displacement (Vertical ripple)
-            y += Math.cos(wavePhase * 0.5) * 2.0 * state.flowAmount;
-
-            // Minimal rotation to keep photos visible
-            rotX = Math.sin(wavePhase) * Math.PI * 0.08 * state.flowAmount;
-            rotZ = Math.cos(wavePhase) * Math.PI * 0.04 * state.flowAmount;
+      state.audioScale = THREE.MathUtils.lerp(state.audioScale, 1 + audioLevel(routes.scale), AUDIO.FOLLOW_LERP);
+
+      // Sound cues when a hand starts pushing/pulling or scattering (the choreography stays silent)
+      const isZooming = !handCamera && hands.length > 0 && (actions.has(GestureAction.ZOOM_IN) || actions.has(GestureAction.ZOOM_OUT));
+      const isScattering = shouldScatter && hands.length > 0;
+      if (isZooming && !state.wasZooming) onSoundCueRef.current?.('whoosh');
+      if (isScattering && !state.wasScattering) onSoundCueRef.current?.('shimmer');
+      state.wasZooming = isZooming;
+      state.wasScattering = isScattering;
+
+      // 4. Shape Transition
+      const uniforms = uniformsRef.current;
+      if (state.morphStart !== null) {
+        const progress = Math.min((Date.now() - state.morphStart) / MORPH.DURATION, 1);
+        uniforms.uMorphProgress.value = progress;
+
+        if (progress >= 1) {
+          // Settle the CPU copy and drop the retired particles
+          stepMorph(state.particles, 1);
+          state.particles = finishMorph(state.particles) as ParticleData[];
+          state.morphStart = null;
+          rebuildMeshes(false);
         }
+      }
 
-        // Apply Scatter (Explosion)
-        if (state.scatterAmount > 0.001) {
-          x += p.vx * 50 * state.scatterAmount;
-          y += p.vy * 50 * state.scatterAmount;
-          z += p.vz * 50 * state.scatterAmount;
-          
-          rotX += time * p.vx * 10 * state.scatterAmount;
-          rotY += time * p.vy * 10 * state.scatterAmount;
+      // 5. Two-Hand Scale & Rotation (relative to the pose when the second hand appeared)
+      const group = meshGroupRef.current;
+      if (hands.length >= 2) {
+        const { spread, angle } = computeTwoHandState(hands[0].state, hands[1].state);
+        if (!state.twoHandStart) {
+          state.twoHandStart = { spread, angle, scale: state.groupScale, rotation: state.groupRotation };
         }
+        const start = state.twoHandStart;
+        const targetScale = THREE.MathUtils.clamp(
+          start.scale * spread / Math.max(start.spread, 0.01),
+          TWO_HAND.MIN_SCALE,
+          TWO_HAND.MAX_SCALE,
+        );
+        // Wrap the twist into -PI..PI so crossing the atan2 seam doesn't spin a full turn
+        const twist = Math.atan2(Math.sin(angle - start.angle), Math.cos(angle - start.angle));
+        state.groupScale = THREE.MathUtils.lerp(state.groupScale, targetScale, TWO_HAND.FOLLOW_LERP);
+        state.groupRotation = THREE.MathUtils.lerp(state.groupRotation, start.rotation + twist, TWO_HAND.FOLLOW_LERP);
+      } else {
+        state.twoHandStart = null;
+        state.groupScale = THREE.MathUtils.lerp(state.groupScale, 1, TWO_HAND.RELAX_LERP);
+        state.groupRotation = THREE.MathUtils.lerp(state.groupRotation, 0, TWO_HAND.RELAX_LERP);
+      }
 
-        dummy.position.set(x, y, z);
-        dummy.rotation.set(rotX, rotY, rotZ);
+      // 6. Pinch-Drag and ROTATE turn the group, stirring swirls the particles
+      const motion = hands.length > 0 ? hands[0].motion : null;
+      if (motion?.pinchDrag) {
+        state.dragYaw += motion.pinchDrag.dx * MOTION.DRAG_ROTATE_SPEED;
+        state.dragPitch += motion.pinchDrag.dy * MOTION.DRAG_ROTATE_SPEED;
+      } else {
+        state.dragYaw = THREE.MathUtils.lerp(state.dragYaw, 0, MOTION.DRAG_RELAX_LERP);
+        state.dragPitch = THREE.MathUtils.lerp(state.dragPitch, 0, MOTION.DRAG_RELAX_LERP);
+      }
+      if (actions.has(GestureAction.ROTATE)) {
+        state.spinAngle += BINDINGS.ROTATE_SPEED;
+      } else {
+        // Ease back the short way round
+        const wrapped = Math.atan2(Math.sin(state.spinAngle), Math.cos(state.spinAngle));
+        state.spinAngle = THREE.MathUtils.lerp(wrapped, 0, BINDINGS.ROTATE_RELAX_LERP);
+      }
+      if (motion?.stir) {
+        const sign = motion.stir.direction === 'CW' ? -1 : 1;
+        state.vortexStrength = sign * motion.stir.strength * MOTION.VORTEX_STRENGTH;
+      } else {
+        state.vortexStrength = THREE.MathUtils.lerp(state.vortexStrength, 0, MOTION.VORTEX_RELAX_LERP);
+      }
 
-        const s = (gesture === HandGesture.OK_SIGN) ? state.scaleMultiplier : 1;
-        dummy.scale.set(s, s, s);
+      // Attract mode: a slow spin with a gentle sway, unwinding the short way once a hand shows up
+      state.attractAmount = THREE.MathUtils.lerp(state.attractAmount, attract ? 1 : 0, ATTRACT.DRIFT_LERP);
+      if (attract) {
+        state.driftYaw += ATTRACT.DRIFT_SPEED * dt * state.attractAmount;
+      } else {
+        const wrapped = Math.atan2(Math.sin(state.driftYaw), Math.cos(state.driftYaw));
+        state.driftYaw = THREE.MathUtils.lerp(wrapped, 0, ATTRACT.DRIFT_LERP);
+      }
+      const sway = Math.sin(time * 0.3) * ATTRACT.DRIFT_SWAY * state.attractAmount;
 
-        dummy.updateMatrix();
+      if (group) {
+        group.scale.setScalar(state.groupScale);
+        group.rotation.set(state.dragPitch + sway, state.dragYaw + state.spinAngle + state.driftYaw, state.groupRotation);
+        group.updateMatrixWorld();
+      }
 
-        // Update the specific mesh instance
-        if (meshesRef.current[p.meshIndex]) {
-           meshesRef.current[p.meshIndex].setMatrixAt(p.instanceIndex, dummy.matrix);
-        }
+      // 7. Fingertip Cursor: project the index tip onto the z = 0 plane
+      const cursor = cursorRef.current;
+      let targetCursorStrength = 0;
+      if (hand && cursor) {
+        cursorRay.set(hand.pointer.x * 2 - 1, -(hand.pointer.y * 2 - 1), 0.5).unproject(camera);
+        cursorRay.sub(camera.position).normalize();
+        const distanceToPlane = -camera.position.z / cursorRay.z;
+        cursorWorld.copy(camera.position).addScaledVector(cursorRay, distanceToPlane);
+
+        cursor.position.copy(cursorWorld);
+        cursor.quaternion.copy(camera.quaternion);
+        // Pinching attracts, an open fingertip pushes
+        targetCursorStrength = hand.pinch > HAND_CONTROL.PINCH_THRESHOLD
+          ? -HAND_CONTROL.CURSOR_PULL
+          : HAND_CONTROL.CURSOR_PUSH;
+      }
+      if (cursor) cursor.visible = hand !== null;
+      state.cursorStrength = THREE.MathUtils.lerp(state.cursorStrength, targetCursorStrength, 0.1);
+      if (hand && group) {
+        // Particles live in the mesh group's space
+        group.worldToLocal(cursorLocal.copy(cursorWorld));
+      }
+
+      // 8. Particle Simulation: gestures emit forces against the return-to-home spring.
+      // Emitters are scaled by the stiffness so a held gesture settles at the given displacement.
+      const k = physics.springStiffness;
+      const forces: ParticleForce[] = [springForce(k), dragForce(physics.drag)];
+      if (physics.gravity > 0) forces.push(gravityForce(physics.gravity));
+      if (shouldScatter || state.audioPulse > 0.01) {
+        forces.push(explosionForce(k * physics.scatterDistance * (shouldScatter ? 1 : state.audioPulse)));
+      }
+      if (state.flowAmount > 0.001 && physics.turbulence > 0) {
+        forces.push(turbulenceForce(
+          k * physics.turbulence * state.flowAmount,
+          SIMULATION.TURBULENCE_SCALE,
+          time * SIMULATION.TURBULENCE_SPEED,
+        ));
+      }
+      if (Math.abs(state.vortexStrength) > 0.001) {
+        forces.push(vortexForce(0, 0, k * state.vortexStrength, MOTION.VORTEX_RADIUS));
+      }
+      if (Math.abs(state.cursorStrength) > 0.001) {
+        forces.push(repulsorForce(
+          cursorLocal.x, cursorLocal.y, cursorLocal.z,
+          k * state.cursorStrength,
+          HAND_CONTROL.CURSOR_RADIUS / state.groupScale,
+        ));
+      }
+      // Once everything is home and only the spring and drag act, there is nothing to step
+      const simulation = simulationRef.current;
+      const emitting = forces.length > 2;
+      if (emitting || !state.particlesAtRest) {
+        simulation.step(dt, forces);
+        state.particlesAtRest = !emitting && simulation.settle(SIMULATION.REST_OFFSET, SIMULATION.REST_SPEED);
+        offsetsDirtyRef.current = true;
+      }
+      if (offsetsDirtyRef.current) {
+        uploadOffsets();
+        offsetsDirtyRef.current = false;
+      }
+
+      // Hand everything to the vertex shader (kept relative to the start for float precision)
+      uniforms.uTime.value = time;
+      uniforms.uFlowAmount.value = state.flowAmount;
+      uniforms.uScatterAmount.value = state.scatterAmount;
+      uniforms.uScaleMultiplier.value = (actions.has(GestureAction.SCALE) ? state.scaleMultiplier : 1) * state.audioScale;
+      uniforms.uWaveAmplitude.value = physics.waveAmplitude;
+      // Reactive styles: a rainbow wave while flowing, a flare while scattering
+      uniforms.uColorShift.value = render.reactive ? state.flowAmount * RENDER_STYLE.FLOW_TINT : 0;
+      uniforms.uBrightness.value = render.reactive ? 1 + state.scatterAmount * RENDER_STYLE.SCATTER_BRIGHTNESS : 1;
+      const post = postRef.current;
+      if (post && (render.bloom || render.trails)) {
+        post.bloom.enabled = render.bloom;
+        post.bloom.strength = render.bloomStrength
+          * (render.reactive ? 1 + state.scatterAmount * RENDER_STYLE.SCATTER_BLOOM : 1);
+        post.trails.enabled = render.trails;
+        post.composer.render();
+      } else {
+        rendererRef.current.render(sceneRef.current, camera);
+      }
+
+      // FPS averaged over roughly a second
+      const stats = statsRef.current;
+      stats.frames++;
+      if (now - stats.since >= 1000) {
+        stats.fps = stats.frames * 1000 / (now - stats.since);
+        stats.frames = 0;
+        stats.since = now;
       }
 
-      // Mark all meshes for update
-      meshesRef.current.forEach(mesh => {
-        mesh.instanceMatrix.needsUpdate = true;
-      });
-      
-      rendererRef.current.render(sceneRef.current, camera);
       reqId = requestAnimationFrame(animate);
     };
 
@@ -325,13 +782,34 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ gesture, uploadedTextures }) =>
         cameraRef.current.aspect = window.innerWidth / window.innerHeight;
         cameraRef.current.updateProjectionMatrix();
         rendererRef.current.setSize(window.innerWidth, window.innerHeight);
+        postRef.current?.composer.setSize(window.innerWidth, window.innerHeight);
       }
     };
     window.addEventListener('resize', handleResize);
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
+  // --- 7. Capture & Stats ---
+  useImperativeHandle(ref, () => ({
+    snapshot: (width: number, height: number) => {
+      if (!rendererRef.current || !sceneRef.current || !cameraRef.current) {
+        return Promise.reject(new Error('Scene not ready'));
+      }
+      // The fingertip ring is an input aid, not part of the picture
+      const cursor = cursorRef.current;
+      const cursorVisible = cursor?.visible ?? false;
+      if (cursor) cursor.visible = false;
+      const { render } = settingsRef.current;
+      const composer = render.bloom || render.trails ? postRef.current?.composer : undefined;
+      const blob = renderSnapshot(rendererRef.current, sceneRef.current, cameraRef.current, width, height, composer);
+      if (cursor) cursor.visible = cursorVisible;
+      return blob;
+    },
+    getCanvas: () => rendererRef.current?.domElement ?? null,
+    getStats: () => ({ fps: statsRef.current.fps, particles: stateRef.current.particles.length }),
+  }), []);
+
   return <div ref={containerRef} className="absolute inset-0 z-0" />;
-};
+});
 
 export default ThreeScene;
\ No newline at end of file
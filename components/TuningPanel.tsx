@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { PhysicsSettings } from '../types';
+import { TUNING } from '../constants';
+import { DEFAULT_SCENE_SETTINGS, PHYSICS_RANGES } from '../services/presets';
+import { SceneStats } from './ThreeScene';
+
+// One slider per tunable value (ranges in PHYSICS_RANGES)
+const SLIDERS: { key: keyof PhysicsSettings; label: string; step: number }[] = [
+  { key: 'pullAcceleration', label: 'Pull acceleration', step: 0.01 },
+  { key: 'pushAcceleration', label: 'Palm push', step: 0.005 },
+  { key: 'damping', label: 'Damping', step: 0.001 },
+  { key: 'flowLerp', label: 'Flow ease', step: 0.001 },
+  { key: 'scatterTriggerZ', label: 'Scatter below camera Z', step: 0.5 },
+  { key: 'waveAmplitude', label: 'Wave amplitude', step: 0.1 },
+  { key: 'scatterDistance', label: 'Scatter distance', step: 1 },
+  { key: 'scaleMultiplier', label: 'OK scale', step: 0.1 },
+  { key: 'springStiffness', label: 'Spring stiffness', step: 0.5 },
+  { key: 'drag', label: 'Particle drag', step: 0.1 },
+  { key: 'turbulence', label: 'Flow turbulence', step: 0.1 },
+  { key: 'gravity', label: 'Gravity', step: 1 },
+];
+
+interface TuningPanelProps {
+  physics: PhysicsSettings;
+  onChange: (physics: PhysicsSettings) => void;
+  getStats: () => SceneStats | null;
+  onClose: () => void;
+}
+
+const TuningPanel: React.FC<TuningPanelProps> = ({ physics, onChange, getStats, onClose }) => {
+  const [stats, setStats] = useState<SceneStats | null>(null);
+
+  // The readout polls the scene instead of re-rendering on every frame
+  useEffect(() => {
+    const update = () => setStats(getStats());
+    update();
+    const timer = setInterval(update, TUNING.STATS_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <div className="pointer-events-auto bg-gray-900/90 backdrop-blur-sm p-4 rounded-xl border border-gray-700 w-72">
+      <div className="flex items-center justify-between text-xs font-bold uppercase tracking-wide text-gray-400">
+        <span>Tuning</span>
+        <button onClick={onClose} className="hover:text-white" title={`Toggle with ${TUNING.TOGGLE_KEY}`}>✕</button>
+      </div>
+
+      <div className="mt-2 flex justify-between font-mono text-xs text-emerald-400">
+        <span>{stats ? `${stats.fps.toFixed(0)} FPS` : '– FPS'}</span>
+        <span>{stats ? `${stats.particles.toLocaleString()} particles` : ''}</span>
+      </div>
+
+      <div className="mt-3 space-y-2">
+        {SLIDERS.map(({ key, label, step }) => (
+          <label key={key} className="block text-xs text-gray-400">
+            <span className="flex justify-between">
+              <span>{label}</span>
+              <span className="font-mono text-gray-200">{physics[key]}</span>
+            </span>
+            <input
+              type="range"
+              min={PHYSICS_RANGES[key][0]}
+              max={PHYSICS_RANGES[key][1]}
+              step={step}
+              value={physics[key]}
+              onChange={(e) => onChange({ ...physics, [key]: parseFloat(e.target.value) })}
+              className="w-full accent-indigo-500"
+            />
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onChange(DEFAULT_SCENE_SETTINGS.physics)}
+        className="mt-3 w-full py-1 rounded-md bg-gray-800 text-gray-300 hover:bg-gray-700 text-xs"
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+};
+
+export default TuningPanel;
@@ -2,14 +2,25 @@
 export const SCENE_CONFIG = {
   TEXT: "THANKS",
   FONT_SIZE: 120,
-  CANVAS_WIDTH: 800,
-  CANVAS_HEIGHT: 300,
+  FONT_FAMILY: "Arial",
+  FONT_WEIGHT: "bold",
+  LINE_HEIGHT: 1.1,    // Multiple of the font size
+  CANVAS_PADDING: 40,  // Empty border around the rasterized text
+  MAX_CANVAS_WIDTH: 2048, // Larger text is drawn smaller so the particle count stays bounded
+  MAX_CANVAS_HEIGHT: 1536,
+  TEXT_INPUT_DELAY_MS: 300, // Pause in typing before the text is rebuilt
   PARTICLE_SIZE: 0.15, // Size of individual plane
-  PARTICLE_GAP: 2,     // Step size when reading pixels
+  PARTICLE_GAP: 1,     // Step size when reading pixels (every pixel, 4x the particles of a gap of 2)
   DEFAULT_COLOR: 0xffffff,
   BG_COLOR: 0x050505,
 };
 
+// Choices offered in the text editor overlay
+export const FONT_OPTIONS = {
+  FAMILIES: ["Arial", "Helvetica", "Verdana", "Georgia", "Times New Roman", "Courier New", "Impact"],
+  WEIGHTS: ["normal", "bold", "900"],
+};
+
 // Camera Movement Limits
 export const CAMERA_LIMITS = {
   MIN_Z: 5,   // Closest (Scatter trigger)
@@ -17,13 +28,188 @@ export const CAMERA_LIMITS = {
   DEFAULT_Z: 20,
 };
 
-// Gesture Physics
+// Gesture Physics (defaults; all of these can be tuned live)
 export const PHYSICS = {
   PULL_ACCELERATION: 0.1,    // Exponential Ease-In base
-  PUSH_VELOCITY: 0.8,        // Initial burst for push
-  FRICTION: 0.92,            // Damping factor
-  SCATTER_RADIUS: 5,         // How far particles explode
+  PUSH_ACCELERATION: 0.05,   // Gentle push so zooming in eases in
+  DAMPING: 0.96,             // Camera velocity kept per frame
+  FLOW_LERP: 0.015,          // How slowly the wave fades in and out
+  SCATTER_TRIGGER_Z: 10,     // Scatter only works once the camera is closer than this
+  WAVE_AMPLITUDE: 5,         // Depth of the flow wave (the vertical ripple is 0.4 of it)
+  SCATTER_DISTANCE: 50,      // How far particles explode (where the explosion balances the spring)
   OK_SCALE_MULTIPLIER: 2.5,  // How much bigger particles get
+  SPRING_STIFFNESS: 12,      // Pull back to the home position (1/s²)
+  DRAG: 3,                   // Velocity damping of the particles (1/s); lower overshoots more
+  TURBULENCE: 1.5,           // Eddy size while flowing, as a displacement
+  GRAVITY: 0,                // Downward pull (units/s²); the layout sags by GRAVITY / SPRING_STIFFNESS
+};
+
+// Particle simulation (forces are given as the displacement they hold against the spring)
+export const SIMULATION = {
+  MAX_STEP: 1 / 30,          // Longest time step (s), so a stalled tab doesn't blow up the springs
+  TURBULENCE_SCALE: 0.08,    // Spatial frequency of the turbulence field
+  TURBULENCE_SPEED: 0.6,     // How fast the field changes
+  REST_OFFSET: 0.001,        // Below this displacement...
+  REST_SPEED: 0.01,          // ...and speed (units/s) everything counts as at rest
+};
+
+// Live tuning panel
+export const TUNING = {
+  TOGGLE_KEY: '`',
+  STATS_INTERVAL_MS: 500,    // How often the FPS / particle readout refreshes
+};
+
+// Render styles and post-processing
+export const RENDER_STYLE = {
+  GRADIENT_COLOR: 0xec4899,
+  BLOOM_STRENGTH: 1.2,
+  BLOOM_RADIUS: 0.4,
+  BLOOM_THRESHOLD: 0.1,
+  TRAIL_DAMP: 0.85,         // Share of the previous frame kept by the trails pass
+  FLOW_TINT: 0.7,           // Strength of the rainbow tint at full flow
+  SCATTER_BRIGHTNESS: 1.5,  // Extra brightness at full scatter
+  SCATTER_BLOOM: 1,         // Extra bloom strength at full scatter, relative to the setting
+};
+
+// Attract mode (kiosk idle loop)
+export const ATTRACT = {
+  IDLE_SECONDS: 30,
+  PROMPT: 'Raise your hand to play',
+  DRIFT_SPEED: 0.12,         // Slow spin (radians per second) while attracting
+  DRIFT_SWAY: 0.15,          // Gentle tilt (radians) on top of the spin
+  DRIFT_LERP: 0.01,          // How slowly the drift fades in and out
+  CHECK_INTERVAL_MS: 1000,   // How often the idle timeout is checked
+};
+
+// Audio analyzer and sound cues
+export const AUDIO = {
+  FFT_SIZE: 2048,
+  SMOOTHING: 0.6,            // Analyser smoothing between frames
+  BANDS: {                   // Hz
+    bass: [20, 250],
+    mid: [250, 2000],
+    treble: [2000, 12000],
+  } as Record<'bass' | 'mid' | 'treble', [number, number]>,
+  BEAT_RATIO: 1.35,          // A beat is a band this much louder than its running average...
+  BEAT_MIN_LEVEL: 0.2,       // ...and at least this loud
+  BEAT_AVERAGE_LERP: 0.05,   // How quickly the running average follows the level
+  BEAT_COOLDOWN_MS: 200,
+  FOLLOW_LERP: 0.2,          // Flow and scale follow the music faster than a gesture eases in
+  PULSE_DECAY: 4,            // Per second, how quickly a beat's scatter burst fades
+  SENSITIVITY: 1,
+  MAX_SENSITIVITY: 4,
+  MUSIC_VOLUME: 0.8,
+  CUE_VOLUME: 0.5,
+  CUE_INTERVAL_MS: 400,      // The same cue doesn't repeat faster than this
+};
+
+// Sync relay (see server/relay.mjs)
+export const SYNC = {
+  PORT: 8787,
+  DEFAULT_ROOM: 'main',
+  RECONNECT_MS: 1000,        // First retry after losing the relay, doubling up to the max
+  MAX_RECONNECT_MS: 15000,
+};
+
+// Saved scene presets
+export const PRESETS = {
+  DB_NAME: 'particle-presets',
+  STORE_NAME: 'presets',     // Keyed by preset name
+  HASH_KEY: 'preset',        // #preset=<name> or #preset=<url of a preset file>
+};
+
+// Gesture Recognition & Temporal Smoothing
+export const GESTURE_TRACKING = {
+  OK_DISTANCE: 0.05,            // Thumb–index tip distance that counts as touching
+  OK_DISTANCE_SOFTNESS: 0.015,  // Confidence fades from 1 to 0 over ± this around OK_DISTANCE
+  CONFIDENCE_SMOOTHING: 0.35,   // EMA factor applied to the per-frame scores
+  ENTER_THRESHOLD: 0.6,         // Confidence a gesture needs to become active...
+  EXIT_THRESHOLD: 0.35,         // ...and may drop to before it is released (hysteresis)
+  DEBOUNCE_FRAMES: 3,           // Frames a change must persist before it is reported
+  DROPOUT_MS: 200,              // A hand the tracker misses for less than this is kept at its last pose
+  ONE_EURO_MIN_CUTOFF: 1.5,     // Landmark smoothing, see oneEuroFilter.ts
+  ONE_EURO_BETA: 8,
+  ONE_EURO_D_CUTOFF: 1,
+};
+
+// Motion Gestures (distances in frame widths)
+export const MOTION = {
+  SWIPE_WINDOW_MS: 300,      // A swipe has to cover the distance within this time
+  SWIPE_MIN_DISTANCE: 0.22,
+  SWIPE_AXIS_RATIO: 2,       // Main axis must dominate the other by this factor
+  SWIPE_COOLDOWN_MS: 700,
+  PINCH_MIN_FRAMES: 2,       // Frames the pinch must hold before dragging starts
+  STIR_WINDOW_MS: 1500,
+  STIR_MIN_RADIUS: 0.03,
+  STIR_MIN_TURNS: 0.75,      // Revolutions within the window that count as stirring
+  DRAG_ROTATE_SPEED: 4,      // Group rotation (radians) per frame width of pinch-drag
+  DRAG_RELAX_LERP: 0.02,
+  VORTEX_STRENGTH: 12,       // Swirl (as a displacement) at full stir strength
+  VORTEX_RELAX_LERP: 0.03,
+  VORTEX_RADIUS: 10,         // Swirl falls off with distance from the center
+};
+
+// Custom (trained) gestures
+export const CUSTOM_GESTURES = {
+  STORAGE_KEY: 'particle-custom-gestures',
+  SAMPLES_PER_RECORDING: 30,   // Frames captured per "Record" press (~1s)
+  RECORD_DELAY_MS: 1500,       // Time to get into the pose before capture starts
+  NEIGHBORS: 5,                // k of the nearest-neighbor vote
+  MATCH_DISTANCE: 0.35,        // Mean landmark distance (in palm lengths) where a match scores 0
+};
+
+// Gesture-to-action bindings
+export const BINDINGS = {
+  STORAGE_KEY: 'particle-gesture-bindings',
+  ROTATE_SPEED: 0.02,        // Radians per frame while a ROTATE gesture is held
+  ROTATE_RELAX_LERP: 0.03,   // Easing back to face the camera afterwards
+};
+
+// PNG snapshots and WebM clips of the scene
+export const CAPTURE = {
+  MAX_SNAPSHOT_SIZE: 8192,     // Longest side of a snapshot (also limited by the GPU)
+  VIDEO_FPS: 30,
+  VIDEO_BITRATE: 8_000_000,
+  VIDEO_TIMESLICE_MS: 1000,    // Recorder hands over data every second
+  HOLD_MS: 2000,               // How long a gesture is held to fire a hold action
+  GESTURE_CLIP_MS: 10000,      // Clips started by a gesture stop on their own
+};
+
+// Hand tracking runtime, bundled with the app
+export const MEDIAPIPE = {
+  ASSET_PATH: 'mediapipe/hands/',   // Relative to the app's base URL
+  CAMERA_WIDTH: 640,                // Camera frames fed to the tracker; landmarks are
+  CAMERA_HEIGHT: 480,               // normalized to these, x by width and y by height
+};
+
+// Mouse / touch / keyboard input
+export const INPUT = {
+  FRAME_MS: 33,                // Synthetic hands are emitted at about the camera's rate
+  WHEEL_HOLD_MS: 250,          // A wheel notch holds its zoom gesture this long
+  WHEEL_PROXIMITY_STEP: 0.001, // Hand proximity change per wheel delta unit (hand camera)
+  LONG_PRESS_MS: 600,          // Press without moving this long to scatter
+  LONG_PRESS_TOLERANCE: 10,    // px of movement still counted as holding still
+  HOVER_MS: 2000,              // A mouse hovering without a button counts as a hand this long after it moves
+};
+
+// Continuous Hand Control
+export const HAND_CONTROL = {
+  ORBIT_YAW: 0.6,        // Radians of camera orbit at the left/right frame edge
+  ORBIT_PITCH: 0.35,     // Radians at the top/bottom edge
+  ORBIT_LERP: 0.08,      // Smoothing of the orbit angles
+  PROXIMITY_LERP: 0.06,  // Smoothing of the proximity-driven camera distance
+  CURSOR_RADIUS: 4,      // World units around the fingertip cursor that particles react in
+  CURSOR_PUSH: 2.5,      // Displacement at the cursor center (pushed away)
+  CURSOR_PULL: 1.5,      // Displacement while pinching (attracted)
+  PINCH_THRESHOLD: 0.6,  // Pinch amount above which the cursor attracts
+};
+
+// Two-Hand Interactions
+export const TWO_HAND = {
+  MIN_SCALE: 0.3,
+  MAX_SCALE: 3,
+  FOLLOW_LERP: 0.2,   // How tightly the group follows the hands
+  RELAX_LERP: 0.02,   // How quickly scale/rotation settle back once a hand leaves
 };
 
 // Hand Landmarks Indices
@@ -34,4 +220,60 @@ export const HAND_INDICES = {
   MIDDLE_MCP: 9, MIDDLE_PIP: 10, MIDDLE_DIP: 11, MIDDLE_TIP: 12,
   RING_MCP: 13, RING_PIP: 14, RING_DIP: 15, RING_TIP: 16,
   PINKY_MCP: 17, PINKY_PIP: 18, PINKY_DIP: 19, PINKY_TIP: 20,
-};
\ No newline at end of file
+};
+
+// Landmark pairs joined by a bone when drawing a hand
+export const HAND_BONES: [number, number][] = [
+  [0, 1], [1, 2], [2, 3], [3, 4],         // Thumb
+  [0, 5], [5, 6], [6, 7], [7, 8],         // Index
+  [5, 9], [9, 10], [10, 11], [11, 12],    // Middle
+  [9, 13], [13, 14], [14, 15], [15, 16],  // Ring
+  [13, 17], [0, 17], [17, 18], [18, 19], [19, 20],  // Pinky and palm edge
+];
+
+// Picture-in-picture camera preview with landmarks
+export const CAMERA_DEBUG = {
+  WIDTH: 320,   // Preview size in CSS px (4:3 like the camera feed)
+  HEIGHT: 240,
+};
+
+// Shape Targets & Morphing
+export const SHAPE_CONFIG = {
+  PRIMITIVE_COUNT: 60000,  // Particles used for sphere / heart / grid
+  SPHERE_RADIUS: 12,
+  HEART_SIZE: 0.9,         // Scale of the parametric heart curve
+  GRID_SPACING: 0.15,      // Keeps the grid about as wide as the text
+  PLAYLIST: ['text', 'sphere', 'heart', 'grid'] as const,
+};
+
+// Image Silhouette Sampling
+export const IMAGE_SHAPE = {
+  MAX_SIZE: 240,        // Longest side (px) the image is scaled to before scanning
+  DEFAULT_MODE: 'alpha' as const,
+  DEFAULT_THRESHOLD: 128,
+};
+
+// Photo Mosaic
+export const MOSAIC = {
+  DEFAULT_SIZE: 512,  // Generated placeholder used until a photo is uploaded
+  MAX_SIZE: 1024,  // Longest side the mosaic photo is downscaled to on upload
+  TEXTURE_CACHE_SIZE: 4,  // Loaded mosaic photos kept for switching back; older ones are disposed
+};
+
+// Texture Atlas (all uploaded photos share one texture per page)
+export const ATLAS = {
+  TILE_SIZE: 128,      // Size of each square cell in an atlas page
+  THUMBNAIL_SIZE: 256, // Longest side uploads are downscaled to (keeps square crops sharp)
+  TILE_PADDING: 2,     // px inset per tile against mipmap bleeding
+  PAGE_SIZE: 2048,     // 16 × 16 tiles per page
+  JPEG_QUALITY: 0.85,
+  MAX_IMAGES: 512,
+  MAX_UPLOAD_BYTES: 200 * 1024 * 1024,
+  DEFAULT_SIZE: 64,    // Generated placeholder used until photos are uploaded
+};
+
+export const MORPH = {
+  DURATION: 1800,  // ms for a full transition
+  STAGGER: 0.35,   // Fraction of the duration used to randomly delay particles
+  ARC_HEIGHT: 6,   // Depth bulge while particles are in flight
+};
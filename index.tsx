@@ -1,15 +1,20 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import ControllerView from './components/ControllerView';
+import './index.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// ?view=controller opens the operator page instead of a display
+const isController = new URLSearchParams(window.location.search).get('view') === 'controller';
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {isController ? <ControllerView /> : <App />}
   </React.StrictMode>
 );
\ No newline at end of file
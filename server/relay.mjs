@@ -0,0 +1,69 @@
+// Sync relay for running the experience across several tabs or machines on a LAN.
+// Every message a client sends is forwarded to the other clients in the same room
+// (?room=<name>, default "main"); the relay never looks inside them.
+//
+//   npm run relay            # port 8787
+//   PORT=9000 npm run relay
+
+import { networkInterfaces } from 'node:os';
+import { WebSocket, WebSocketServer } from 'ws';
+
+const port = Number(process.env.PORT ?? 8787);
+// Texture sets and presets embed their photos as data URLs
+const MAX_PAYLOAD = 64 * 1024 * 1024;
+// Connections that miss a ping (e.g. a laptop went to sleep) are dropped
+const PING_INTERVAL_MS = 15000;
+
+const rooms = new Map();  // Room name -> Set of sockets
+const server = new WebSocketServer({ port, maxPayload: MAX_PAYLOAD });
+
+// Tells everyone in the room how many clients are connected
+const announce = (peers) => {
+  const message = JSON.stringify({ type: 'peers', count: peers.size });
+  peers.forEach(peer => {
+    if (peer.readyState === WebSocket.OPEN) peer.send(message);
+  });
+};
+
+server.on('connection', (socket, request) => {
+  const room = new URL(request.url ?? '/', 'ws://relay').searchParams.get('room') || 'main';
+  if (!rooms.has(room)) rooms.set(room, new Set());
+  const peers = rooms.get(room);
+  peers.add(socket);
+  socket.alive = true;
+  announce(peers);
+
+  socket.on('pong', () => { socket.alive = true; });
+  socket.on('message', (data, isBinary) => {
+    peers.forEach(peer => {
+      if (peer !== socket && peer.readyState === WebSocket.OPEN) peer.send(data, { binary: isBinary });
+    });
+  });
+  socket.on('close', () => {
+    peers.delete(socket);
+    if (peers.size === 0) rooms.delete(room);
+    else announce(peers);
+  });
+  socket.on('error', (err) => console.warn(`[${room}] ${err.message}`));
+});
+
+const pinger = setInterval(() => {
+  server.clients.forEach(socket => {
+    if (!socket.alive) {
+      socket.terminate();
+      return;
+    }
+    socket.alive = false;
+    socket.ping();
+  });
+}, PING_INTERVAL_MS);
+server.on('close', () => clearInterval(pinger));
+
+server.on('listening', () => {
+  const addresses = Object.values(networkInterfaces())
+    .flat()
+    .filter(address => address && address.family === 'IPv4' && !address.internal)
+    .map(address => `ws://${address.address}:${port}`);
+  console.log(`Sync relay on ws://localhost:${port}`);
+  addresses.forEach(address => console.log(`             ${address}`));
+});
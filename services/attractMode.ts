@@ -0,0 +1,36 @@
+import { AttractCue, GestureAction } from '../types';
+
+// One pass of the idle choreography (the scene drifts slowly throughout). Every pass
+// moves on to the next message and texture set.
+export const ATTRACT_CHOREOGRAPHY: { actions: GestureAction[]; ms: number }[] = [
+  { actions: [], ms: 6000 },
+  { actions: [GestureAction.FLOW], ms: 8000 },
+  { actions: [], ms: 3000 },
+  { actions: [GestureAction.SCATTER], ms: 2500 },
+  { actions: [], ms: 5500 },
+];
+
+/**
+ * Where the choreography is `elapsed` ms after attract mode started, and how long
+ * the current cue lasts
+ */
+export const getAttractCue = (
+  elapsed: number,
+  steps = ATTRACT_CHOREOGRAPHY,
+): { cue: AttractCue; nextChangeMs: number } => {
+  const cycleMs = steps.reduce((sum, step) => sum + step.ms, 0);
+  const cycle = Math.floor(Math.max(0, elapsed) / cycleMs);
+  let within = Math.max(0, elapsed) - cycle * cycleMs;
+  for (const step of steps) {
+    if (within < step.ms) return { cue: { cycle, actions: step.actions }, nextChangeMs: step.ms - within };
+    within -= step.ms;
+  }
+  // Only reachable through float rounding at the very end of a cycle
+  return { cue: { cycle: cycle + 1, actions: steps[0].actions }, nextChangeMs: steps[0].ms };
+};
+
+/**
+ * The entry shown in a given cycle, counting on from `start` and wrapping around
+ */
+export const cycleEntry = <T>(items: T[], start: number, cycle: number): T | undefined =>
+  items.length > 0 ? items[(start + cycle) % items.length] : undefined;
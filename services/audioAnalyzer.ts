@@ -0,0 +1,195 @@
+import { AUDIO } from '../constants';
+import { AudioBand, AudioFrame, AudioLevels } from '../types';
+
+const BANDS = Object.keys(AUDIO.BANDS) as AudioBand[];
+
+export const SILENT_FRAME: AudioFrame = {
+  levels: { bass: 0, mid: 0, treble: 0 },
+  beats: { bass: false, mid: false, treble: false },
+};
+
+/**
+ * Average energy per band of an analyser's byte spectrum (0-255 per bin). Bin i
+ * covers i * sampleRate / fftSize Hz, and the spectrum has fftSize / 2 bins.
+ */
+export const computeBandLevels = (spectrum: ArrayLike<number>, sampleRate: number): AudioLevels => {
+  const binHz = sampleRate / (spectrum.length * 2);
+  const levels = { ...SILENT_FRAME.levels };
+  BANDS.forEach(band => {
+    const [low, high] = AUDIO.BANDS[band];
+    const first = Math.max(0, Math.floor(low / binHz));
+    const last = Math.min(spectrum.length - 1, Math.ceil(high / binHz));
+    let sum = 0;
+    for (let i = first; i <= last; i++) sum += spectrum[i];
+    levels[band] = last >= first ? sum / ((last - first + 1) * 255) : 0;
+  });
+  return levels;
+};
+
+/**
+ * Flags a beat when a band jumps well above its running average, at most once
+ * per cooldown, so a sustained loud passage doesn't fire on every frame
+ */
+export const createBeatDetector = () => {
+  const average = { ...SILENT_FRAME.levels };
+  const lastBeat: Record<AudioBand, number> = { bass: -Infinity, mid: -Infinity, treble: -Infinity };
+
+  const update = (levels: AudioLevels, now: number): Record<AudioBand, boolean> => {
+    const beats = { ...SILENT_FRAME.beats };
+    BANDS.forEach(band => {
+      const level = levels[band];
+      if (level >= AUDIO.BEAT_MIN_LEVEL && level > average[band] * AUDIO.BEAT_RATIO && now - lastBeat[band] >= AUDIO.BEAT_COOLDOWN_MS) {
+        beats[band] = true;
+        lastBeat[band] = now;
+      }
+      average[band] += (level - average[band]) * AUDIO.BEAT_AVERAGE_LERP;
+    });
+    return beats;
+  };
+
+  return { update };
+};
+
+/**
+ * Web Audio FFT of the microphone or a looping audio file. The scene calls `sample`
+ * once per frame; `latest` returns that frame again without analysing, e.g. for meters.
+ */
+export const createAudioAnalyzer = () => {
+  let context: AudioContext | null = null;
+  let analyser: AnalyserNode | null = null;
+  let input: GainNode | null = null;    // Sensitivity, feeds the analyser only
+  let output: GainNode | null = null;   // Music volume, feeds the speakers only
+  let spectrum = new Uint8Array(0);
+  let stopSource: (() => void) | null = null;
+  let beats = createBeatDetector();
+  let latest = SILENT_FRAME;
+  let sensitivity: number = AUDIO.SENSITIVITY;
+  let volume: number = AUDIO.MUSIC_VOLUME;
+
+  const setup = async () => {
+    if (!context) {
+      context = new AudioContext();
+      analyser = context.createAnalyser();
+      analyser.fftSize = AUDIO.FFT_SIZE;
+      analyser.smoothingTimeConstant = AUDIO.SMOOTHING;
+      input = context.createGain();
+      input.gain.value = sensitivity;
+      input.connect(analyser);
+      output = context.createGain();
+      output.gain.value = volume;
+      output.connect(context.destination);
+      spectrum = new Uint8Array(analyser.frequencyBinCount);
+    }
+    await context.resume();
+    return context;
+  };
+
+  // Bumped by every start and stop, so a start still waiting on permission or
+  // playback can tell that it has been replaced
+  let request = 0;
+
+  const stop = () => {
+    request++;
+    stopSource?.();
+    stopSource = null;
+    beats = createBeatDetector();
+    latest = SILENT_FRAME;
+  };
+
+  /**
+   * Starts listening to the microphone. Resolves false when another start or a stop
+   * came in while the permission prompt was open; that stream is released unused.
+   */
+  const startMicrophone = async () => {
+    stop();
+    const token = request;
+    try {
+      const audio = await setup();
+      // Processing meant for voice calls flattens the dynamics the bands are measured from
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+      });
+      if (token !== request) {
+        stream.getTracks().forEach(track => track.stop());
+        return false;
+      }
+      const node = audio.createMediaStreamSource(stream);
+      node.connect(input!);
+      stopSource = () => {
+        node.disconnect();
+        stream.getTracks().forEach(track => track.stop());
+      };
+      return true;
+    } catch (error) {
+      if (token !== request) return false;
+      throw error;
+    }
+  };
+
+  /**
+   * Plays a looping audio file through the analyzer and the speakers. Resolves
+   * false when it was replaced before playback started.
+   */
+  const startFile = async (file: File) => {
+    stop();
+    const token = request;
+    try {
+      const audio = await setup();
+      if (token !== request) return false;
+      const url = URL.createObjectURL(file);
+      const element = new Audio(url);
+      element.loop = true;
+      const node = audio.createMediaElementSource(element);
+      node.connect(input!);
+      node.connect(output!);
+      stopSource = () => {
+        element.pause();
+        node.disconnect();
+        URL.revokeObjectURL(url);
+      };
+      await element.play();
+      return token === request;
+    } catch (error) {
+      if (token !== request) return false;
+      stop();
+      throw error;
+    }
+  };
+
+  const setSensitivity = (gain: number) => {
+    sensitivity = gain;
+    if (input) input.gain.value = gain;
+  };
+
+  const setVolume = (level: number) => {
+    volume = level;
+    if (output) output.gain.value = level;
+  };
+
+  const sample = (now: number): AudioFrame => {
+    if (!context || !analyser || !stopSource) return SILENT_FRAME;
+    analyser.getByteFrequencyData(spectrum);
+    const levels = computeBandLevels(spectrum, context.sampleRate);
+    latest = { levels, beats: beats.update(levels, now) };
+    return latest;
+  };
+
+  const close = () => {
+    stop();
+    context?.close();
+    context = null;
+  };
+
+  return {
+    startMicrophone,
+    startFile,
+    stop,
+    setSensitivity,
+    setVolume,
+    sample,
+    latest: () => latest,
+    close,
+  };
+};
+
+export type AudioAnalyzer = ReturnType<typeof createAudioAnalyzer>;
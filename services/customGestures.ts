@@ -0,0 +1,118 @@
+import { CustomGesture, GestureId, HandLabel, NormalizedLandmarkList } from '../types';
+import { CUSTOM_GESTURES, HAND_INDICES, MEDIAPIPE } from '../constants';
+
+const LANDMARK_COUNT = 21;
+
+// Landmark x (and z, which MediaPipe scales like x) in frame heights, so both axes share a unit
+const ASPECT = MEDIAPIPE.CAMERA_WIDTH / MEDIAPIPE.CAMERA_HEIGHT;
+
+/**
+ * Turns a hand pose into a vector that ignores where the hand is, how big it appears
+ * and how it is tilted: the wrist moves to the origin, the wrist → middle knuckle
+ * direction is rotated to point up and its length becomes 1. Left hands are mirrored
+ * so a pose trained with one hand is recognized with either.
+ */
+export const normalizeLandmarks = (landmarks: NormalizedLandmarkList, label: HandLabel): number[] => {
+  const wrist = landmarks[HAND_INDICES.WRIST];
+  const knuckle = landmarks[HAND_INDICES.MIDDLE_MCP];
+  const dx = (knuckle.x - wrist.x) * ASPECT;
+  const dy = knuckle.y - wrist.y;
+  const palmLength = Math.max(Math.sqrt(dx * dx + dy * dy), 1e-6);
+
+  // Rotation that maps the palm direction onto (0, -1), i.e. straight up in frame space
+  const angle = -Math.PI / 2 - Math.atan2(dy, dx);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const mirror = label === 'Left' ? -1 : 1;
+
+  const features: number[] = [];
+  for (let i = 0; i < LANDMARK_COUNT; i++) {
+    const x = (landmarks[i].x - wrist.x) * ASPECT / palmLength;
+    const y = (landmarks[i].y - wrist.y) / palmLength;
+    const z = (landmarks[i].z - wrist.z) * ASPECT / palmLength;
+    features.push(
+      Math.round((x * cos - y * sin) * mirror * 1e4) / 1e4,
+      Math.round((x * sin + y * cos) * 1e4) / 1e4,
+      Math.round(z * 1e4) / 1e4,
+    );
+  }
+  return features;
+};
+
+// Mean distance between corresponding landmarks, in palm lengths
+const poseDistance = (a: number[], b: number[]) => {
+  let total = 0;
+  for (let i = 0; i < a.length; i += 3) {
+    total += Math.sqrt((a[i] - b[i]) ** 2 + (a[i + 1] - b[i + 1]) ** 2 + (a[i + 2] - b[i + 2]) ** 2);
+  }
+  return total / LANDMARK_COUNT;
+};
+
+/**
+ * k-nearest-neighbor scores (0-1) for every trained gesture. A gesture scores high when
+ * it owns most of the k closest samples and those samples are close.
+ */
+export const classifyCustomGestures = (features: number[], gestures: CustomGesture[]): Record<GestureId, number> => {
+  const scores: Record<GestureId, number> = {};
+  const neighbors: { id: GestureId; distance: number }[] = [];
+
+  gestures.forEach(gesture => {
+    scores[gesture.id] = 0;
+    gesture.samples.forEach(sample => {
+      if (sample.length === features.length) {
+        neighbors.push({ id: gesture.id, distance: poseDistance(features, sample) });
+      }
+    });
+  });
+
+  const nearest = neighbors.sort((a, b) => a.distance - b.distance).slice(0, CUSTOM_GESTURES.NEIGHBORS);
+  nearest.forEach(({ id, distance }) => {
+    const closeness = Math.max(0, 1 - distance / CUSTOM_GESTURES.MATCH_DISTANCE);
+    scores[id] += closeness / CUSTOM_GESTURES.NEIGHBORS;
+  });
+  return scores;
+};
+
+export const createCustomGestureId = (name: string) =>
+  `custom:${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${Date.now().toString(36)}`;
+
+export const isCustomGesture = (value: unknown): value is CustomGesture => {
+  const gesture = value as CustomGesture;
+  return typeof gesture?.id === 'string'
+    && typeof gesture.name === 'string'
+    && Array.isArray(gesture.samples)
+    && gesture.samples.every(sample => Array.isArray(sample) && sample.length === LANDMARK_COUNT * 3);
+};
+
+/**
+ * Parses an exported gesture file. Throws when the content isn't a gesture list.
+ */
+export const parseCustomGestures = (json: string): CustomGesture[] => {
+  const parsed = JSON.parse(json);
+  const list = Array.isArray(parsed) ? parsed : parsed?.gestures;
+  if (!Array.isArray(list) || !list.every(isCustomGesture)) {
+    throw new Error('Not a custom gesture file');
+  }
+  return list;
+};
+
+export const serializeCustomGestures = (gestures: CustomGesture[]) =>
+  JSON.stringify({ version: 1, gestures });
+
+export const loadCustomGestures = (): CustomGesture[] => {
+  try {
+    const stored = localStorage.getItem(CUSTOM_GESTURES.STORAGE_KEY);
+    if (stored) return parseCustomGestures(stored);
+  } catch {
+    // Corrupt entry, start without custom gestures
+  }
+  return [];
+};
+
+export const saveCustomGestures = (gestures: CustomGesture[]) => {
+  try {
+    localStorage.setItem(CUSTOM_GESTURES.STORAGE_KEY, serializeCustomGestures(gestures));
+  } catch {
+    // Storage full or disabled; the gestures still work for this session
+  }
+};
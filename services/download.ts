@@ -0,0 +1,24 @@
+/**
+ * Saves a blob as a file through a temporary download link
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before releasing the data
+  setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+};
+
+/**
+ * Saves text as a file
+ */
+export const downloadText = (text: string, filename: string, type = 'application/json') => {
+  downloadBlob(new Blob([text], { type }), filename);
+};
+
+/**
+ * File name with a sortable timestamp, e.g. particles-2024-05-01T12-00-00-000Z.png
+ */
+export const timestampedName = (prefix: string, extension: string) =>
+  `${prefix}-${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`;
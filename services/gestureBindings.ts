@@ -0,0 +1,138 @@
+import { CustomGesture, GestureAction, GestureBinding, HandGesture, MotionGesture } from '../types';
+import { BINDINGS } from '../constants';
+
+// Matches the behavior the scene had before bindings were configurable
+export const DEFAULT_BINDINGS: GestureBinding[] = [
+  { gesture: HandGesture.FIST, action: GestureAction.ZOOM_OUT },
+  { gesture: HandGesture.OPEN_PALM, action: GestureAction.ZOOM_IN },
+  { gesture: HandGesture.OPEN_PALM, action: GestureAction.FLOW },
+  { gesture: HandGesture.OPEN_PALM, action: GestureAction.SCATTER },
+  { gesture: HandGesture.OK_SIGN, action: GestureAction.SCALE },
+  { gesture: HandGesture.OK_SIGN, action: GestureAction.RECORD_CLIP },
+  { gesture: MotionGesture.SWIPE_LEFT, action: GestureAction.NEXT_SHAPE },
+  { gesture: MotionGesture.SWIPE_RIGHT, action: GestureAction.PREV_SHAPE },
+  { gesture: MotionGesture.SWIPE_UP, action: GestureAction.NEXT_TEXTURES },
+  { gesture: MotionGesture.SWIPE_DOWN, action: GestureAction.PREV_TEXTURES },
+];
+
+// Built-in gestures that can be bound. Pinch-drag and stir are direct manipulations and stay fixed.
+export const BINDABLE_GESTURES: string[] = [
+  HandGesture.FIST,
+  HandGesture.OPEN_PALM,
+  HandGesture.OK_SIGN,
+  MotionGesture.SWIPE_LEFT,
+  MotionGesture.SWIPE_RIGHT,
+  MotionGesture.SWIPE_UP,
+  MotionGesture.SWIPE_DOWN,
+];
+
+export const GESTURE_LABELS: Record<string, { label: string; icon: string; color: string }> = {
+  [HandGesture.FIST]: { label: 'Fist', icon: '✊', color: 'bg-red-500' },
+  [HandGesture.OPEN_PALM]: { label: 'Open Palm', icon: '✋', color: 'bg-blue-500' },
+  [HandGesture.OK_SIGN]: { label: 'OK Sign', icon: '👌', color: 'bg-green-500' },
+  [MotionGesture.SWIPE_LEFT]: { label: 'Swipe Left', icon: '⬅', color: 'bg-purple-500' },
+  [MotionGesture.SWIPE_RIGHT]: { label: 'Swipe Right', icon: '➡', color: 'bg-purple-500' },
+  [MotionGesture.SWIPE_UP]: { label: 'Swipe Up', icon: '⬆', color: 'bg-purple-500' },
+  [MotionGesture.SWIPE_DOWN]: { label: 'Swipe Down', icon: '⬇', color: 'bg-purple-500' },
+};
+
+/**
+ * Built-in gestures followed by the trained ones
+ */
+export const getBindableGestures = (customGestures: CustomGesture[]): string[] =>
+  [...BINDABLE_GESTURES, ...customGestures.map(gesture => gesture.id)];
+
+/**
+ * Display name and badge for any bindable gesture, trained ones included
+ */
+export const getGestureInfo = (gesture: string, customGestures: CustomGesture[]) => {
+  if (GESTURE_LABELS[gesture]) return GESTURE_LABELS[gesture];
+  const custom = customGestures.find(candidate => candidate.id === gesture);
+  return { label: custom?.name ?? 'Unknown', icon: '★', color: 'bg-amber-500' };
+};
+
+export const ACTION_LABELS: Record<GestureAction, string> = {
+  [GestureAction.ZOOM_IN]: 'Push forward (Zoom In)',
+  [GestureAction.ZOOM_OUT]: 'Pull back (Zoom Out)',
+  [GestureAction.FLOW]: 'Flowing Effect',
+  [GestureAction.SCATTER]: 'Scatter (up close)',
+  [GestureAction.SCALE]: 'Scale Up Particles',
+  [GestureAction.ROTATE]: 'Spin',
+  [GestureAction.NEXT_SHAPE]: 'Next Shape',
+  [GestureAction.PREV_SHAPE]: 'Previous Shape',
+  [GestureAction.NEXT_TEXTURES]: 'Next Photo Set',
+  [GestureAction.PREV_TEXTURES]: 'Previous Photo Set',
+  [GestureAction.RECORD_CLIP]: 'Record Clip (hold 2s)',
+  [GestureAction.SNAPSHOT]: 'Snapshot (hold 2s)',
+};
+
+// Actions that fire once instead of running while the gesture is held
+const TRIGGER_ACTIONS = new Set<GestureAction>([
+  GestureAction.NEXT_SHAPE,
+  GestureAction.PREV_SHAPE,
+  GestureAction.NEXT_TEXTURES,
+  GestureAction.PREV_TEXTURES,
+]);
+
+export const isTriggerAction = (action: GestureAction) => TRIGGER_ACTIONS.has(action);
+
+// Actions that fire once the gesture has been held for a while, so they don't go off by accident
+const HOLD_ACTIONS = new Set<GestureAction>([
+  GestureAction.RECORD_CLIP,
+  GestureAction.SNAPSHOT,
+]);
+
+export const isHoldAction = (action: GestureAction) => HOLD_ACTIONS.has(action);
+
+export const SWIPES = new Set<string>([MotionGesture.SWIPE_LEFT, MotionGesture.SWIPE_RIGHT, MotionGesture.SWIPE_UP, MotionGesture.SWIPE_DOWN]);
+
+/**
+ * Actions a gesture can drive. A swipe is over in a moment, so it can't be held:
+ * only one-shot trigger actions work with it.
+ */
+export const getBindableActions = (gesture: string): GestureAction[] =>
+  Object.values(GestureAction).filter(action => !SWIPES.has(gesture) || isTriggerAction(action));
+
+/**
+ * Every action bound to a gesture, in table order
+ */
+export const getBoundActions = (bindings: GestureBinding[], gesture: string): GestureAction[] =>
+  bindings.filter(binding => binding.gesture === gesture).map(binding => binding.action);
+
+/**
+ * First gesture bound to an action, so non-camera inputs can act through the same bindings
+ */
+export const findGestureForAction = (bindings: GestureBinding[], action: GestureAction): string | null =>
+  bindings.find(binding => binding.action === action)?.gesture ?? null;
+
+/**
+ * A binding of a known gesture (built-in or one of `customGestures`) to an action it can drive
+ */
+export const isValidBinding = (value: unknown, customGestures: CustomGesture[]): value is GestureBinding => {
+  const binding = value as GestureBinding;
+  return typeof binding?.gesture === 'string'
+    && getBindableGestures(customGestures).includes(binding.gesture)
+    && getBindableActions(binding.gesture).includes(binding.action);
+};
+
+/**
+ * Reads the saved binding table, falling back to the defaults when nothing
+ * (or nothing usable) is stored
+ */
+export const loadBindings = (customGestures: CustomGesture[]): GestureBinding[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(BINDINGS.STORAGE_KEY) ?? 'null');
+    if (Array.isArray(stored)) return stored.filter(binding => isValidBinding(binding, customGestures));
+  } catch {
+    // Corrupt entry, use the defaults
+  }
+  return DEFAULT_BINDINGS;
+};
+
+export const saveBindings = (bindings: GestureBinding[]) => {
+  try {
+    localStorage.setItem(BINDINGS.STORAGE_KEY, JSON.stringify(bindings));
+  } catch {
+    // Storage full or disabled; the bindings still apply for this session
+  }
+};
@@ -1,5 +1,5 @@
-import { HandGesture, NormalizedLandmarkList } from '../types';
-import { HAND_INDICES } from '../constants';
+import { HandDiagnostics, HandGesture, HandLabel, HandState, Handedness, NormalizedLandmarkList, TwoHandState } from '../types';
+import { HAND_INDICES, GESTURE_TRACKING } from '../constants';
 
 /**
  * Calculates Euclidean distance between two landmarks (ignoring Z for simple gesture checks)
@@ -25,6 +25,22 @@ const isFingerExtended = (landmarks: NormalizedLandmarkList, fingerName: 'INDEX'
   return getDistance(wrist, tip) > getDistance(wrist, pip);
 };
 
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/**
+ * How far a finger is extended, 0 (curled into the palm) to 1 (straight).
+ * Continuous version of isFingerExtended: an extended finger's tip is roughly
+ * 1.3× further from the wrist than its PIP joint, a curled one closer than 0.8×.
+ */
+const getFingerExtension = (landmarks: NormalizedLandmarkList, fingerName: 'INDEX' | 'MIDDLE' | 'RING' | 'PINKY') => {
+  const wrist = landmarks[HAND_INDICES.WRIST];
+  const tip = landmarks[HAND_INDICES[`${fingerName}_TIP` as keyof typeof HAND_INDICES]];
+  const pip = landmarks[HAND_INDICES[`${fingerName}_PIP` as keyof typeof HAND_INDICES]];
+
+  const ratio = getDistance(wrist, tip) / Math.max(getDistance(wrist, pip), 1e-6);
+  return clamp01((ratio - 0.8) / 0.5);
+};
+
 export const analyzeGesture = (landmarks: NormalizedLandmarkList): HandGesture => {
   if (!landmarks || landmarks.length === 0) return HandGesture.NONE;
 
@@ -40,7 +56,7 @@ export const analyzeGesture = (landmarks: NormalizedLandmarkList): HandGesture =
   // 1. Check for OK Sign
   // Thumb tip and Index tip are close, other fingers are extended
   const thumbIndexDist = getDistance(thumbTip, indexTip);
-  if (thumbIndexDist < 0.05 && middleExtended && ringExtended && pinkyExtended) {
+  if (thumbIndexDist < GESTURE_TRACKING.OK_DISTANCE && middleExtended && ringExtended && pinkyExtended) {
     return HandGesture.OK_SIGN;
   }
 
@@ -59,6 +75,55 @@ export const analyzeGesture = (landmarks: NormalizedLandmarkList): HandGesture =
   return HandGesture.NONE;
 };
 
+/**
+ * Soft per-gesture confidence (0-1) for one frame, following the same rules as
+ * analyzeGesture but without hard cut-offs, so a tracker can smooth and threshold them.
+ */
+export const scoreGestures = (landmarks: NormalizedLandmarkList): Record<HandGesture, number> => {
+  if (!landmarks || landmarks.length === 0) {
+    return { [HandGesture.NONE]: 1, [HandGesture.FIST]: 0, [HandGesture.OPEN_PALM]: 0, [HandGesture.OK_SIGN]: 0 };
+  }
+
+  const index = getFingerExtension(landmarks, 'INDEX');
+  const middle = getFingerExtension(landmarks, 'MIDDLE');
+  const ring = getFingerExtension(landmarks, 'RING');
+  const pinky = getFingerExtension(landmarks, 'PINKY');
+
+  // 1 when the tips clearly touch, 0 when clearly apart, linear around OK_DISTANCE
+  const thumbIndexDist = getDistance(landmarks[HAND_INDICES.THUMB_TIP], landmarks[HAND_INDICES.INDEX_TIP]);
+  const touching = clamp01(0.5 + (GESTURE_TRACKING.OK_DISTANCE - thumbIndexDist) / (2 * GESTURE_TRACKING.OK_DISTANCE_SOFTNESS));
+
+  const okSign = Math.min(touching, middle, ring, pinky);
+  const fist = Math.min(1 - index, 1 - middle, 1 - ring, 1 - pinky);
+  // An OK sign also has (almost) all fingers out, so it wins over an open palm
+  const openPalm = Math.min(index, middle, ring, pinky, 1 - touching);
+
+  return {
+    [HandGesture.NONE]: 1 - Math.max(okSign, fist, openPalm),
+    [HandGesture.FIST]: fist,
+    [HandGesture.OPEN_PALM]: openPalm,
+    [HandGesture.OK_SIGN]: okSign,
+  };
+};
+
+/**
+ * Exposes the measurements analyzeGesture and scoreGestures decide on, so a
+ * misread pose can be explained
+ */
+export const diagnoseHand = (landmarks: NormalizedLandmarkList): HandDiagnostics => {
+  const fingers = (['INDEX', 'MIDDLE', 'RING', 'PINKY'] as const).map(finger => ({
+    finger,
+    extended: isFingerExtended(landmarks, finger),
+    extension: getFingerExtension(landmarks, finger),
+  }));
+  return {
+    fingers,
+    thumbIndexDistance: getDistance(landmarks[HAND_INDICES.THUMB_TIP], landmarks[HAND_INDICES.INDEX_TIP]),
+    okDistance: GESTURE_TRACKING.OK_DISTANCE,
+    proximity: estimateHandProximity(landmarks),
+  };
+};
+
 /**
  * Estimates Z-depth based on hand size (Palm bounding box size relative to frame)
  * Returning a normalized value 0-1 where 1 is very close, 0 is far.
@@ -73,4 +138,77 @@ export const estimateHandProximity = (landmarks: NormalizedLandmarkList): number
   // Normalize: Assuming palmSize varies roughly between 0.1 (far) and 0.5 (close)
   // Clamp between 0 and 1
   return Math.min(Math.max((palmSize - 0.1) / 0.4, 0), 1);
-};
\ No newline at end of file
+};
+
+/**
+ * Derives the continuous hand state (palm position, proximity, roll, openness, pinch
+ * and index fingertip) from one frame of landmarks. X is mirrored to match the selfie view.
+ */
+export const computeHandState = (landmarks: NormalizedLandmarkList): HandState => {
+  const wrist = landmarks[HAND_INDICES.WRIST];
+  const middleMCP = landmarks[HAND_INDICES.MIDDLE_MCP];
+  const thumbTip = landmarks[HAND_INDICES.THUMB_TIP];
+  const indexTip = landmarks[HAND_INDICES.INDEX_TIP];
+
+  // Palm center: wrist plus the four knuckles
+  const palmPoints = [
+    wrist,
+    landmarks[HAND_INDICES.INDEX_MCP],
+    middleMCP,
+    landmarks[HAND_INDICES.RING_MCP],
+    landmarks[HAND_INDICES.PINKY_MCP],
+  ];
+  const palmX = palmPoints.reduce((sum, p) => sum + p.x, 0) / palmPoints.length;
+  const palmY = palmPoints.reduce((sum, p) => sum + p.y, 0) / palmPoints.length;
+
+  // Thumb–index gap relative to palm size, so pinching works at any distance
+  const palmSize = Math.max(getDistance(wrist, middleMCP), 1e-6);
+  const pinchRatio = getDistance(thumbTip, indexTip) / palmSize;
+
+  const fingers = ['INDEX', 'MIDDLE', 'RING', 'PINKY'] as const;
+  const openness = fingers.reduce((sum, finger) => sum + getFingerExtension(landmarks, finger), 0) / fingers.length;
+
+  return {
+    palmX: 1 - palmX,
+    palmY,
+    proximity: estimateHandProximity(landmarks),
+    // Angle of the wrist -> middle knuckle line from vertical (image Y runs down, X is mirrored)
+    roll: Math.atan2(middleMCP.x - wrist.x, wrist.y - middleMCP.y),
+    openness,
+    pinch: clamp01((0.8 - pinchRatio) / 0.6),
+    pointer: { x: 1 - indexTip.x, y: indexTip.y, z: indexTip.z },
+  };
+};
+
+/**
+ * MediaPipe labels handedness assuming a mirrored (selfie) input image. We feed it the
+ * raw camera frame, so the labels come out swapped relative to the user's real hands.
+ */
+export const resolveHandLabel = (handedness: Handedness | undefined, index: number): HandLabel => {
+  if (!handedness) return index === 0 ? 'Right' : 'Left';
+  return handedness.label === 'Left' ? 'Right' : 'Left';
+};
+
+/**
+ * MediaPipe lists the hands in no stable order, so the single-hand controls would jump
+ * between them. The hand that was primary stays first while it is visible.
+ */
+export const keepPrimaryHandFirst = <T extends { label: HandLabel }>(hands: T[], primary: HandLabel | null): T[] => {
+  const index = hands.findIndex(hand => hand.label === primary);
+  return index > 0 ? [hands[index], ...hands.slice(0, index), ...hands.slice(index + 1)] : hands;
+};
+
+/**
+ * Spread and angle between two hands, used for two-hand scale and rotation
+ */
+export const computeTwoHandState = (a: HandState, b: HandState): TwoHandState => {
+  const [left, right] = a.palmX <= b.palmX ? [a, b] : [b, a];
+  const dx = right.palmX - left.palmX;
+  const dy = right.palmY - left.palmY;
+
+  return {
+    spread: Math.sqrt(dx * dx + dy * dy),
+    // Frame Y runs down, so flip it for a counter-clockwise angle
+    angle: Math.atan2(-dy, dx),
+  };
+};
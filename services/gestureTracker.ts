@@ -0,0 +1,90 @@
+import { GestureEvent, GestureId, HandGesture, NormalizedLandmarkList } from '../types';
+import { GESTURE_TRACKING } from '../constants';
+import { scoreGestures } from './gestureRecognition';
+import { createLandmarkSmoother } from './oneEuroFilter';
+
+const GESTURES = Object.values(HandGesture) as HandGesture[];
+
+// Extra per-frame scores for gestures beyond the built-in ones (e.g. trained poses)
+export type CustomGestureScorer = (landmarks: NormalizedLandmarkList) => Record<GestureId, number>;
+
+/**
+ * Stateful wrapper around the per-frame recognizer for one hand. It smooths the
+ * landmarks (One Euro), smooths the per-gesture confidences (EMA), applies enter/exit
+ * thresholds (hysteresis) and only reports a change once it has persisted for
+ * DEBOUNCE_FRAMES frames. Each event also carries how long the gesture has been held.
+ * Custom gestures from `scoreCustom` compete with the built-in ones on equal terms.
+ */
+export const createGestureTracker = (scoreCustom?: CustomGestureScorer) => {
+  const smoother = createLandmarkSmoother();
+  const confidences: Record<GestureId, number> = Object.fromEntries(GESTURES.map(g => [g, g === HandGesture.NONE ? 1 : 0]));
+
+  let active: GestureId = HandGesture.NONE;
+  let activeSince: number | null = null;
+  let pending: GestureId = HandGesture.NONE;
+  let pendingFrames = 0;
+
+  /**
+   * Feeds one frame. Pass null when the hand is not visible so confidences decay.
+   * Returns the (debounced) gesture event and the smoothed landmarks.
+   */
+  const update = (landmarks: NormalizedLandmarkList | null, timestamp: number) => {
+    if (activeSince === null) activeSince = timestamp;
+
+    let smoothed: NormalizedLandmarkList | null = null;
+    if (landmarks && landmarks.length > 0) {
+      smoothed = smoother.smooth(landmarks, timestamp);
+    } else {
+      smoother.reset();
+    }
+
+    // 1. Per-frame scores, smoothed over time. Gestures missing from this frame's
+    //    scores (a hidden hand, a deleted custom gesture) decay towards 0.
+    const scores: Record<GestureId, number> = { ...scoreGestures(smoothed ?? []) };
+    if (smoothed && scoreCustom) {
+      Object.entries(scoreCustom(smoothed)).forEach(([id, score]) => {
+        scores[id] = score;
+        scores[HandGesture.NONE] = Math.min(scores[HandGesture.NONE], 1 - score);
+      });
+    }
+    new Set([...Object.keys(confidences), ...Object.keys(scores)]).forEach(g => {
+      confidences[g] = (confidences[g] ?? 0) + ((scores[g] ?? 0) - (confidences[g] ?? 0)) * GESTURE_TRACKING.CONFIDENCE_SMOOTHING;
+    });
+
+    // 2. Hysteresis: keep the active gesture until it falls below the exit threshold,
+    //    otherwise pick the strongest gesture that clears the enter threshold
+    let desired: GestureId = HandGesture.NONE;
+    if (active !== HandGesture.NONE && confidences[active] >= GESTURE_TRACKING.EXIT_THRESHOLD) {
+      desired = active;
+    } else {
+      const best = Object.keys(confidences)
+        .filter(g => g !== HandGesture.NONE)
+        .reduce((a, b) => (confidences[b] > confidences[a] ? b : a));
+      if (confidences[best] >= GESTURE_TRACKING.ENTER_THRESHOLD) desired = best;
+    }
+
+    // 3. Debounce: a change has to hold for several consecutive frames
+    if (desired === active) {
+      pendingFrames = 0;
+    } else {
+      pendingFrames = desired === pending ? pendingFrames + 1 : 1;
+      pending = desired;
+      if (pendingFrames >= GESTURE_TRACKING.DEBOUNCE_FRAMES) {
+        active = desired;
+        activeSince = timestamp;
+        pendingFrames = 0;
+      }
+    }
+
+    const event: GestureEvent = {
+      gesture: active,
+      confidence: confidences[active],
+      startedAt: activeSince,
+      duration: timestamp - activeSince,
+      confidences: { ...confidences },
+    };
+    return { event, landmarks: smoothed };
+  };
+
+  return { update };
+};
@@ -0,0 +1,396 @@
+import type { Hands as HandsSolution, Results } from '@mediapipe/hands';
+import type { Camera as CameraFeed } from '@mediapipe/camera_utils';
+import { GestureAction, GestureBinding, HandGesture, HandLabel, HandState, MotionGesture, MotionState, RecordedSession, TrackedHand } from '../types';
+import { INPUT, MEDIAPIPE } from '../constants';
+import { SWIPES, findGestureForAction } from './gestureBindings';
+import { LandmarkFrame, createSessionPlayer } from './sessionRecording';
+import { Camera, Hands, locateHandsFile } from './mediapipe';
+
+/**
+ * Where providers deliver their input. Landmark sources go through gesture recognition;
+ * synthetic sources (mouse, keyboard) already know the gesture and hand state.
+ */
+export interface InputSink {
+  onLandmarks: (frame: LandmarkFrame, timestamp: number) => void;
+  onHands: (hands: TrackedHand[], timestamp: number) => void;
+}
+
+export interface InputProvider {
+  start: () => Promise<void>;  // Rejects when the source can't be used
+  stop: () => void;
+}
+
+// --- Camera (MediaPipe) ---
+
+export const createCameraProvider = (video: HTMLVideoElement, sink: InputSink): InputProvider => {
+  let hands: HandsSolution | null = null;
+  let camera: CameraFeed | null = null;
+  let stopped = false;
+
+  const start = async () => {
+    if (!Hands || !Camera) {
+      throw new Error('MediaPipe failed to load');
+    }
+
+    hands = new Hands({ locateFile: locateHandsFile });
+    hands.setOptions({
+      maxNumHands: 2,
+      modelComplexity: 1,
+      minDetectionConfidence: 0.5,
+      minTrackingConfidence: 0.5,
+    });
+    hands.onResults((results: Results) => {
+      if (!stopped) sink.onLandmarks(results, performance.now());
+    });
+
+    const activeHands = hands;
+    camera = new Camera(video, {
+      onFrame: async () => {
+        if (!stopped) await activeHands.send({ image: video });
+      },
+      width: MEDIAPIPE.CAMERA_WIDTH,
+      height: MEDIAPIPE.CAMERA_HEIGHT,
+    });
+    await camera.start();
+  };
+
+  const stop = () => {
+    stopped = true;
+    camera?.stop().catch(() => {});
+    hands?.close().catch(() => {});
+    camera = null;
+    hands = null;
+  };
+
+  return { start, stop };
+};
+
+// --- Recorded Session ---
+
+export const createReplayProvider = (
+  session: RecordedSession,
+  sink: InputSink,
+  options: { loop: () => boolean; onEnd?: () => void },
+): InputProvider => {
+  const player = createSessionPlayer(session, (frame, timestamp) => sink.onLandmarks(frame, timestamp), options);
+  return {
+    start: async () => player.start(),
+    stop: player.stop,
+  };
+};
+
+// --- Remote (hands broadcast by another tab through the sync relay) ---
+
+export const createRemoteProvider = (
+  // Registers a listener for incoming hands and returns its removal
+  subscribe: (listener: (hands: TrackedHand[]) => void) => () => void,
+  sink: InputSink,
+): InputProvider => {
+  let unsubscribe: (() => void) | null = null;
+  return {
+    start: async () => {
+      unsubscribe = subscribe(hands => sink.onHands(hands, performance.now()));
+    },
+    stop: () => {
+      unsubscribe?.();
+      unsubscribe = null;
+    },
+  };
+};
+
+// --- Synthetic Hands (mouse, touch, keyboard) ---
+
+const IDLE_MOTION: MotionState = { swipe: null, pinchDrag: null, stir: null };
+
+const syntheticHand = (
+  gesture: string,
+  gestureDuration: number,
+  state: Partial<HandState>,
+  motion: MotionState = IDLE_MOTION,
+  label: HandLabel = 'Right',
+): TrackedHand => ({
+  label,
+  gesture,
+  gestureDuration,
+  state: {
+    palmX: 0.5,
+    palmY: 0.5,
+    proximity: 0.5,
+    roll: 0,
+    openness: 1,
+    pinch: 0,
+    pointer: { x: 0.5, y: 0.5, z: 0 },
+    ...state,
+  },
+  motion,
+  landmarks: [],
+});
+
+/**
+ * Runs `tick` on animation frames, at most every INPUT.FRAME_MS. Emits nothing while
+ * idle except the one empty frame that ends the previous activity.
+ */
+const createHandLoop = (sink: InputSink, tick: (now: number) => TrackedHand[]) => {
+  let reqId: number | null = null;
+  let lastEmit = 0;
+  let wasActive = false;
+  let gesture: string = HandGesture.NONE;
+  let gestureSince = 0;
+
+  const loop = () => {
+    const now = performance.now();
+    if (now - lastEmit >= INPUT.FRAME_MS) {
+      lastEmit = now;
+      const hands = tick(now);
+      if (hands.length > 0 || wasActive) sink.onHands(hands, now);
+      wasActive = hands.length > 0;
+    }
+    reqId = requestAnimationFrame(loop);
+  };
+
+  // How long the synthetic gesture has been held, like the tracker reports for real hands
+  const holdDuration = (next: string, now: number) => {
+    if (next !== gesture) {
+      gesture = next;
+      gestureSince = now;
+    }
+    return now - gestureSince;
+  };
+
+  return {
+    holdDuration,
+    start: () => {
+      reqId = requestAnimationFrame(loop);
+    },
+    stop: () => {
+      if (reqId !== null) cancelAnimationFrame(reqId);
+      reqId = null;
+    },
+  };
+};
+
+/**
+ * Mouse and touch: the pointer is the fingertip and palm, the wheel pushes/pulls,
+ * dragging with a button (or one finger) tilts like a pinch-drag and a long press
+ * scatters. Two fingers become two hands, so spreading or pinching them scales the
+ * shape and twisting turns it, like two-hand control with the camera. Actions are
+ * mapped back to whichever gesture is bound to them, so they follow the configured
+ * bindings.
+ */
+export const createPointerProvider = (
+  target: HTMLElement,
+  sink: InputSink,
+  getBindings: () => GestureBinding[],
+): InputProvider => {
+  const pressed = new Map<number, { x: number; y: number }>();
+  let position: { x: number; y: number } | null = null;
+  let movedAt = -Infinity;
+  let press: { x: number; y: number; t: number; long: boolean } | null = null;
+  let drag = { dx: 0, dy: 0 };
+  let wheelAction: GestureAction | null = null;
+  let wheelUntil = 0;
+  let proximity = 0.5;
+
+  const toFrame = (event: PointerEvent | WheelEvent) => {
+    const rect = target.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) / Math.max(rect.width, 1),
+      y: (event.clientY - rect.top) / Math.max(rect.height, 1),
+    };
+  };
+
+  const handlePointerDown = (event: PointerEvent) => {
+    target.setPointerCapture(event.pointerId);
+    const point = toFrame(event);
+    pressed.set(event.pointerId, point);
+    position = point;
+    press = pressed.size === 1 ? { x: event.clientX, y: event.clientY, t: performance.now(), long: false } : null;
+  };
+
+  const handlePointerMove = (event: PointerEvent) => {
+    const point = toFrame(event);
+    const previous = pressed.get(event.pointerId);
+    if (previous) {
+      pressed.set(event.pointerId, point);
+      if (pressed.size === 1) {
+        drag.dx += point.x - previous.x;
+        drag.dy += point.y - previous.y;
+      }
+    }
+    if (press && !press.long && Math.hypot(event.clientX - press.x, event.clientY - press.y) > INPUT.LONG_PRESS_TOLERANCE) {
+      press = null;
+    }
+    position = point;
+    movedAt = performance.now();
+  };
+
+  const handlePointerUp = (event: PointerEvent) => {
+    pressed.delete(event.pointerId);
+    press = null;
+    // A lifted finger takes the "hand" with it; a mouse keeps hovering
+    if (event.pointerType !== 'mouse' && pressed.size === 0) position = null;
+  };
+
+  const handlePointerLeave = (event: PointerEvent) => {
+    if (event.pointerType === 'mouse' && pressed.size === 0) position = null;
+  };
+
+  const handleWheel = (event: WheelEvent) => {
+    event.preventDefault();
+    wheelAction = event.deltaY < 0 ? GestureAction.ZOOM_IN : GestureAction.ZOOM_OUT;
+    wheelUntil = performance.now() + INPUT.WHEEL_HOLD_MS;
+    proximity = Math.min(Math.max(proximity - event.deltaY * INPUT.WHEEL_PROXIMITY_STEP, 0), 1);
+    position = position ?? toFrame(event);
+  };
+
+  const loop = createHandLoop(sink, (now) => {
+    // A resting mouse isn't someone at the screen, so it lets attract mode start
+    const present = pressed.size > 0 || now - movedAt < INPUT.HOVER_MS || now < wheelUntil;
+    if (!position || !present) return [];
+
+    // Pinching: the first two fingers are the two hands, their distance is the spread
+    if (pressed.size >= 2) {
+      const [first, second] = [...pressed.values()];
+      const duration = loop.holdDuration(HandGesture.NONE, now);
+      return [first, second].map((point, i) => syntheticHand(HandGesture.NONE, duration, {
+        palmX: point.x,
+        palmY: point.y,
+        proximity,
+        pointer: { x: point.x, y: point.y, z: 0 },
+      }, IDLE_MOTION, i === 0 ? 'Right' : 'Left'));
+    }
+
+    if (press && !press.long && now - press.t >= INPUT.LONG_PRESS_MS) press.long = true;
+    const action = press?.long ? GestureAction.SCATTER
+      : now < wheelUntil ? wheelAction
+      : null;
+    const gesture = (action && findGestureForAction(getBindings(), action)) ?? HandGesture.NONE;
+
+    // A plain press works like a pinch: it attracts particles and drags the layout
+    const pinching = pressed.size === 1 && !press?.long;
+    const motion = pinching ? { ...IDLE_MOTION, pinchDrag: drag } : IDLE_MOTION;
+    drag = { dx: 0, dy: 0 };
+
+    const { x, y } = pressed.size > 0 ? [...pressed.values()][0] : position;
+    return [syntheticHand(gesture, loop.holdDuration(gesture, now), {
+      palmX: x,
+      palmY: y,
+      proximity,
+      pinch: pinching ? 1 : 0,
+      pointer: { x, y, z: 0 },
+    }, motion)];
+  });
+
+  return {
+    start: async () => {
+      target.addEventListener('pointerdown', handlePointerDown);
+      target.addEventListener('pointermove', handlePointerMove);
+      target.addEventListener('pointerup', handlePointerUp);
+      target.addEventListener('pointercancel', handlePointerUp);
+      target.addEventListener('pointerleave', handlePointerLeave);
+      target.addEventListener('wheel', handleWheel, { passive: false });
+      loop.start();
+    },
+    stop: () => {
+      loop.stop();
+      target.removeEventListener('pointerdown', handlePointerDown);
+      target.removeEventListener('pointermove', handlePointerMove);
+      target.removeEventListener('pointerup', handlePointerUp);
+      target.removeEventListener('pointercancel', handlePointerUp);
+      target.removeEventListener('pointerleave', handlePointerLeave);
+      target.removeEventListener('wheel', handleWheel);
+    },
+  };
+};
+
+// Held keys run continuous actions, tapped keys fire one-shot actions
+export const KEYBOARD_SHORTCUTS: { keys: string[]; action: GestureAction; held: boolean }[] = [
+  { keys: ['ArrowUp', 'w'], action: GestureAction.ZOOM_IN, held: true },
+  { keys: ['ArrowDown', 's'], action: GestureAction.ZOOM_OUT, held: true },
+  { keys: ['f'], action: GestureAction.FLOW, held: true },
+  { keys: [' '], action: GestureAction.SCATTER, held: true },
+  { keys: ['e'], action: GestureAction.SCALE, held: true },
+  { keys: ['r'], action: GestureAction.ROTATE, held: true },
+  { keys: ['ArrowRight'], action: GestureAction.NEXT_SHAPE, held: false },
+  { keys: ['ArrowLeft'], action: GestureAction.PREV_SHAPE, held: false },
+  { keys: ['PageUp'], action: GestureAction.NEXT_TEXTURES, held: false },
+  { keys: ['PageDown'], action: GestureAction.PREV_TEXTURES, held: false },
+];
+
+/**
+ * Keyboard shortcuts (see KEYBOARD_SHORTCUTS). Like the pointer provider it acts
+ * through the gesture bound to each action.
+ */
+export const createKeyboardProvider = (sink: InputSink, getBindings: () => GestureBinding[]): InputProvider => {
+  let held: GestureAction[] = [];
+  let tapped: GestureAction | null = null;
+
+  const findShortcut = (event: KeyboardEvent) => {
+    const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+    return KEYBOARD_SHORTCUTS.find(shortcut => shortcut.keys.includes(key));
+  };
+
+  // Typing into the text controls must not steer the scene
+  const isTyping = (event: KeyboardEvent) => {
+    const element = event.target as HTMLElement | null;
+    return !!element && ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    const shortcut = findShortcut(event);
+    if (!shortcut || isTyping(event) || event.ctrlKey || event.metaKey || event.altKey) return;
+    event.preventDefault();
+    if (!shortcut.held) {
+      if (!event.repeat) tapped = shortcut.action;
+    } else if (!held.includes(shortcut.action)) {
+      held.push(shortcut.action);
+    }
+  };
+
+  const handleKeyUp = (event: KeyboardEvent) => {
+    const shortcut = findShortcut(event);
+    if (shortcut) held = held.filter(action => action !== shortcut.action);
+  };
+
+  // Without a tracked fingertip the cursor is parked outside the frame
+  const keyboardHand = (gesture: string, duration: number, motion?: MotionState) =>
+    syntheticHand(gesture, duration, { pointer: { x: -1, y: -1, z: 0 } }, motion);
+
+  const loop = createHandLoop(sink, (now) => {
+    const bindings = getBindings();
+
+    if (tapped) {
+      const gesture = findGestureForAction(bindings, tapped);
+      tapped = null;
+      // Swipes are motion events; static gestures fire when they are entered
+      if (gesture && SWIPES.has(gesture)) {
+        return [keyboardHand(HandGesture.NONE, 0, { ...IDLE_MOTION, swipe: gesture as MotionGesture })];
+      }
+      if (gesture) return [keyboardHand(gesture, loop.holdDuration(gesture, now))];
+    }
+
+    if (held.length === 0) return [];
+    // The most recently pressed key wins
+    const gesture = findGestureForAction(bindings, held[held.length - 1]) ?? HandGesture.NONE;
+    return [keyboardHand(gesture, loop.holdDuration(gesture, now))];
+  });
+
+  const handleBlur = () => {
+    held = [];
+  };
+
+  return {
+    start: async () => {
+      window.addEventListener('keydown', handleKeyDown);
+      window.addEventListener('keyup', handleKeyUp);
+      window.addEventListener('blur', handleBlur);
+      loop.start();
+    },
+    stop: () => {
+      loop.stop();
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    },
+  };
+};
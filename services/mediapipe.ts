@@ -0,0 +1,15 @@
+import * as handsModule from '@mediapipe/hands';
+import * as cameraModule from '@mediapipe/camera_utils';
+import { MEDIAPIPE } from '../constants';
+
+// The MediaPipe packages are closure-compiled scripts: depending on how the bundler wraps
+// them their classes end up as exports or only on the global object, so check both
+const globals = globalThis as unknown as Partial<typeof handsModule & typeof cameraModule>;
+
+export const Hands = handsModule.Hands ?? globals.Hands;
+export const Camera = cameraModule.Camera ?? globals.Camera;
+
+/**
+ * Model, graph and WASM files are served by the app itself (see vite.config.ts)
+ */
+export const locateHandsFile = (file: string) => `${import.meta.env.BASE_URL}${MEDIAPIPE.ASSET_PATH}${file}`;
@@ -0,0 +1,46 @@
+import { SCENE_CONFIG } from '../constants';
+
+interface LayoutPoint {
+  toX: number;
+  toY: number;
+}
+
+/**
+ * Computes a UV sub-rectangle (offsetU, offsetV, sizeU, sizeV) for every particle so the
+ * assembled layout shows one continuous picture. The image is fitted to the layout bounds
+ * like CSS `object-fit: cover`, and each tile spans exactly one particle quad.
+ */
+export const computeMosaicUvRects = (particles: LayoutPoint[], imageAspect: number): Float32Array => {
+  const rects = new Float32Array(particles.length * 4);
+  if (particles.length === 0) return rects;
+
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  particles.forEach(p => {
+    minX = Math.min(minX, p.toX);
+    maxX = Math.max(maxX, p.toX);
+    minY = Math.min(minY, p.toY);
+    maxY = Math.max(maxY, p.toY);
+  });
+
+  const quadSize = SCENE_CONFIG.PARTICLE_SIZE * 4;
+  const width = Math.max(maxX - minX, quadSize);
+  const height = Math.max(maxY - minY, quadSize);
+
+  // Portion of the image that is visible after cropping to the layout's aspect ratio
+  const layoutAspect = width / height;
+  const spanU = imageAspect > layoutAspect ? layoutAspect / imageAspect : 1;
+  const spanV = imageAspect > layoutAspect ? 1 : imageAspect / layoutAspect;
+
+  const tileU = (quadSize / width) * spanU;
+  const tileV = (quadSize / height) * spanV;
+
+  particles.forEach((p, i) => {
+    const u = (1 - spanU) / 2 + ((p.toX - minX) / width) * spanU;
+    const v = (1 - spanV) / 2 + ((p.toY - minY) / height) * spanV;
+    rects[i * 4] = u - tileU / 2;
+    rects[i * 4 + 1] = v - tileV / 2;
+    rects[i * 4 + 2] = tileU;
+    rects[i * 4 + 3] = tileV;
+  });
+  return rects;
+};
@@ -0,0 +1,116 @@
+import { HandState, MotionGesture, MotionState } from '../types';
+import { MOTION, HAND_CONTROL } from '../constants';
+
+interface MotionSample {
+  t: number;
+  palmX: number;
+  palmY: number;
+  tipX: number;
+  tipY: number;
+}
+
+const NO_MOTION: MotionState = { swipe: null, pinchDrag: null, stir: null };
+
+/**
+ * Classifies a fast, mostly straight palm movement within the swipe window
+ */
+const detectSwipe = (history: MotionSample[], now: number): MotionGesture | null => {
+  const recent = history.filter(s => now - s.t <= MOTION.SWIPE_WINDOW_MS);
+  if (recent.length < 3) return null;
+
+  const first = recent[0];
+  const last = recent[recent.length - 1];
+  const dx = last.palmX - first.palmX;
+  const dy = last.palmY - first.palmY;
+
+  if (Math.abs(dx) >= MOTION.SWIPE_MIN_DISTANCE && Math.abs(dx) >= Math.abs(dy) * MOTION.SWIPE_AXIS_RATIO) {
+    return dx > 0 ? MotionGesture.SWIPE_RIGHT : MotionGesture.SWIPE_LEFT;
+  }
+  if (Math.abs(dy) >= MOTION.SWIPE_MIN_DISTANCE && Math.abs(dy) >= Math.abs(dx) * MOTION.SWIPE_AXIS_RATIO) {
+    // Frame Y runs down
+    return dy > 0 ? MotionGesture.SWIPE_DOWN : MotionGesture.SWIPE_UP;
+  }
+  return null;
+};
+
+/**
+ * Sums how far the fingertip has turned around the centroid of its recent path.
+ * Returns null unless it went round at least STIR_MIN_TURNS on a big enough circle.
+ */
+const detectStir = (history: MotionSample[]): MotionState['stir'] => {
+  if (history.length < 8) return null;
+
+  const cx = history.reduce((sum, s) => sum + s.tipX, 0) / history.length;
+  const cy = history.reduce((sum, s) => sum + s.tipY, 0) / history.length;
+  const meanRadius = history.reduce((sum, s) => sum + Math.hypot(s.tipX - cx, s.tipY - cy), 0) / history.length;
+  if (meanRadius < MOTION.STIR_MIN_RADIUS) return null;
+
+  let turned = 0;
+  for (let i = 1; i < history.length; i++) {
+    const a = Math.atan2(history[i - 1].tipY - cy, history[i - 1].tipX - cx);
+    const b = Math.atan2(history[i].tipY - cy, history[i].tipX - cx);
+    turned += Math.atan2(Math.sin(b - a), Math.cos(b - a));
+  }
+
+  const turns = Math.abs(turned) / (Math.PI * 2);
+  if (turns < MOTION.STIR_MIN_TURNS) return null;
+
+  return {
+    // Frame Y runs down, so a growing angle is clockwise on screen
+    direction: turned > 0 ? 'CW' : 'CCW',
+    strength: Math.min(turns / (MOTION.STIR_MIN_TURNS * 2), 1),
+  };
+};
+
+/**
+ * Motion-gesture layer for one hand. Keeps a short history of the (mirrored) hand
+ * state and reports swipes, pinch-and-drag and circular "stir" motions.
+ */
+export const createMotionDetector = () => {
+  let history: MotionSample[] = [];
+  let lastSwipeAt = -Infinity;
+  let pinchFrames = 0;
+  let previousTip: { x: number; y: number } | null = null;
+
+  /**
+   * Feeds one frame; pass null when the hand is not visible
+   */
+  const update = (state: HandState | null, timestamp: number): MotionState => {
+    if (!state) {
+      history = [];
+      pinchFrames = 0;
+      previousTip = null;
+      return NO_MOTION;
+    }
+
+    history.push({ t: timestamp, palmX: state.palmX, palmY: state.palmY, tipX: state.pointer.x, tipY: state.pointer.y });
+    history = history.filter(s => timestamp - s.t <= Math.max(MOTION.STIR_WINDOW_MS, MOTION.SWIPE_WINDOW_MS));
+
+    // 1. Pinch-and-drag (takes priority: a pinched hand moving fast is dragging, not swiping)
+    const pinching = state.pinch > HAND_CONTROL.PINCH_THRESHOLD;
+    pinchFrames = pinching ? pinchFrames + 1 : 0;
+    let pinchDrag: MotionState['pinchDrag'] = null;
+    if (pinchFrames >= MOTION.PINCH_MIN_FRAMES && previousTip) {
+      pinchDrag = { dx: state.pointer.x - previousTip.x, dy: state.pointer.y - previousTip.y };
+    }
+    previousTip = { x: state.pointer.x, y: state.pointer.y };
+
+    // 2. Swipes, with a cooldown so one sweep fires once
+    let swipe: MotionGesture | null = null;
+    if (!pinching && timestamp - lastSwipeAt > MOTION.SWIPE_COOLDOWN_MS) {
+      swipe = detectSwipe(history, timestamp);
+      if (swipe) {
+        lastSwipeAt = timestamp;
+        // A swipe is not a stir; start the circle detection over
+        history = [];
+      }
+    }
+
+    // 3. Stir
+    const stir = swipe || pinching ? null : detectStir(history);
+
+    return { swipe, pinchDrag, stir };
+  };
+
+  return { update };
+};
@@ -0,0 +1,81 @@
+import { NormalizedLandmarkList } from '../types';
+import { GESTURE_TRACKING } from '../constants';
+
+interface OneEuroOptions {
+  minCutoff: number;  // Hz, lower = smoother when the hand is still
+  beta: number;       // How much the cutoff rises with speed, higher = less lag when moving
+  dCutoff: number;    // Hz, cutoff for the speed estimate itself
+}
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+/**
+ * One Euro filter (Casiez et al. 2012): an adaptive low-pass filter that smooths
+ * jitter at low speeds while keeping lag low during fast motion.
+ */
+export const createOneEuroFilter = (options: OneEuroOptions) => {
+  let previousValue: number | null = null;
+  let previousDerivative = 0;
+  let previousTime = 0;
+
+  const filter = (value: number, timestamp: number): number => {
+    if (previousValue === null) {
+      previousValue = value;
+      previousTime = timestamp;
+      return value;
+    }
+
+    // Seconds since the last sample (guard against duplicate timestamps)
+    const dt = Math.max((timestamp - previousTime) / 1000, 1e-3);
+    previousTime = timestamp;
+
+    const derivative = (value - previousValue) / dt;
+    const alphaD = smoothingFactor(options.dCutoff, dt);
+    previousDerivative = previousDerivative + alphaD * (derivative - previousDerivative);
+
+    const cutoff = options.minCutoff + options.beta * Math.abs(previousDerivative);
+    const alpha = smoothingFactor(cutoff, dt);
+    previousValue = previousValue + alpha * (value - previousValue);
+    return previousValue;
+  };
+
+  const reset = () => {
+    previousValue = null;
+    previousDerivative = 0;
+  };
+
+  return { filter, reset };
+};
+
+/**
+ * Smooths all 21 hand landmarks, one One Euro filter per coordinate
+ */
+export const createLandmarkSmoother = (options: OneEuroOptions = {
+  minCutoff: GESTURE_TRACKING.ONE_EURO_MIN_CUTOFF,
+  beta: GESTURE_TRACKING.ONE_EURO_BETA,
+  dCutoff: GESTURE_TRACKING.ONE_EURO_D_CUTOFF,
+}) => {
+  let filters: ReturnType<typeof createOneEuroFilter>[][] = [];
+
+  const smooth = (landmarks: NormalizedLandmarkList, timestamp: number): NormalizedLandmarkList => {
+    if (filters.length !== landmarks.length) {
+      filters = landmarks.map(() => [createOneEuroFilter(options), createOneEuroFilter(options), createOneEuroFilter(options)]);
+    }
+
+    return landmarks.map((landmark, i) => ({
+      ...landmark,
+      x: filters[i][0].filter(landmark.x, timestamp),
+      y: filters[i][1].filter(landmark.y, timestamp),
+      z: filters[i][2].filter(landmark.z, timestamp),
+    }));
+  };
+
+  const reset = () => {
+    filters.forEach(axes => axes.forEach(f => f.reset()));
+  };
+
+  return { smooth, reset };
+};
@@ -0,0 +1,257 @@
+import { ImageShapeSettings, ShapeTarget, TextSettings } from '../types';
+import { SCENE_CONFIG, SHAPE_CONFIG, IMAGE_SHAPE } from '../constants';
+
+export interface RawParticle {
+  x: number;
+  y: number;
+  z: number;
+  vx: number;
+  vy: number;
+  vz: number;
+  // Tint (0-1 per channel), white unless sampled from an image
+  r: number;
+  g: number;
+  b: number;
+}
+
+/**
+ * Creates a particle at the given position with a random scatter direction
+ */
+const createParticle = (x: number, y: number, z: number, r = 1, g = 1, b = 1): RawParticle => ({
+  x,
+  y,
+  z,
+  vx: (Math.random() - 0.5) * 0.5,
+  vy: (Math.random() - 0.5) * 0.5,
+  vz: (Math.random() - 0.5) * 0.5,
+  r,
+  g,
+  b,
+});
+
+/**
+ * Scans a canvas every `gap` pixels and turns each accepted pixel into a particle
+ * centered around the origin, optionally carrying the pixel's color.
+ */
+const scanPixels = (
+  canvas: HTMLCanvasElement,
+  gap: number,
+  accept: (r: number, g: number, b: number, a: number) => boolean,
+  sampleColor: boolean,
+): RawParticle[] => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return [];
+
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const rawParticles: RawParticle[] = [];
+
+  for (let y = 0; y < canvas.height; y += gap) {
+    for (let x = 0; x < canvas.width; x += gap) {
+      const index = (y * canvas.width + x) * 4;
+      const r = imageData.data[index];
+      const g = imageData.data[index + 1];
+      const b = imageData.data[index + 2];
+      const a = imageData.data[index + 3];
+
+      if (accept(r, g, b, a)) {
+        rawParticles.push(createParticle(
+          (x - canvas.width / 2) * SCENE_CONFIG.PARTICLE_SIZE,
+          (canvas.height / 2 - y) * SCENE_CONFIG.PARTICLE_SIZE, // Flip Y
+          0,
+          sampleColor ? r / 255 : 1,
+          sampleColor ? g / 255 : 1,
+          sampleColor ? b / 255 : 1,
+        ));
+      }
+    }
+  }
+  return rawParticles;
+};
+
+/**
+ * Builds the canvas font shorthand for the given text settings
+ */
+const toCanvasFont = (settings: TextSettings) => {
+  return `${settings.fontWeight} ${settings.fontSize}px "${settings.fontFamily}"`;
+};
+
+/**
+ * Canvas size and font size for text whose lines measure `lineWidths` px at the set
+ * font size. Text larger than MAX_CANVAS_WIDTH × MAX_CANVAS_HEIGHT is drawn at a
+ * smaller size instead, so the canvas (and the particle count) stays bounded.
+ */
+export const fitTextCanvas = (lineWidths: number[], settings: TextSettings) => {
+  const padding = SCENE_CONFIG.CANVAS_PADDING;
+  const width = lineWidths.reduce((max, lineWidth) => Math.max(max, lineWidth), 0);
+  const height = lineWidths.length * settings.fontSize * settings.lineHeight;
+  const fit = Math.min(
+    1,
+    (SCENE_CONFIG.MAX_CANVAS_WIDTH - padding * 2) / Math.max(width, 1),
+    (SCENE_CONFIG.MAX_CANVAS_HEIGHT - padding * 2) / Math.max(height, 1),
+  );
+  return {
+    fontSize: settings.fontSize * fit,
+    lineHeight: settings.fontSize * fit * settings.lineHeight,
+    width: Math.ceil(width * fit + padding * 2),
+    height: Math.ceil(height * fit + padding * 2),
+  };
+};
+
+/**
+ * Draws the (possibly multi-line) text onto a canvas sized to fit it.
+ * Each line is measured first so long strings are never clipped.
+ */
+const rasterizeText = (settings: TextSettings): HTMLCanvasElement | null => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const lines = settings.text.split(/\r?\n/);
+
+  // Measure before sizing (resizing the canvas resets the context state)
+  ctx.font = toCanvasFont(settings);
+  const size = fitTextCanvas(lines.map(line => ctx.measureText(line).width), settings);
+  const lineHeight = size.lineHeight;
+  canvas.width = size.width;
+  canvas.height = size.height;
+
+  // Background Black
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  // Text White, one line at a time centered around the middle of the canvas
+  ctx.fillStyle = '#FFFFFF';
+  ctx.font = toCanvasFont({ ...settings, fontSize: size.fontSize });
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const firstLineY = canvas.height / 2 - ((lines.length - 1) * lineHeight) / 2;
+  lines.forEach((line, i) => {
+    ctx.fillText(line, canvas.width / 2, firstLineY + i * lineHeight);
+  });
+
+  return canvas;
+};
+
+/**
+ * Rasterizes the text and turns every bright pixel (sampled every PARTICLE_GAP px)
+ * into a particle centered around the origin.
+ */
+export const generateTextParticles = (settings: TextSettings): RawParticle[] => {
+  if (settings.text.trim().length === 0) return [];
+
+  const canvas = rasterizeText(settings);
+  if (!canvas) return [];
+
+  // If pixel is bright enough (white text on black, so the red channel is enough)
+  return scanPixels(canvas, SCENE_CONFIG.PARTICLE_GAP, (r) => r > 128, false);
+};
+
+/**
+ * Samples an image's silhouette (alpha) or brightness (luminance) into particles.
+ * The image is scaled down to IMAGE_SHAPE.MAX_SIZE first to keep counts sane.
+ */
+export const generateImageParticles = (image: HTMLImageElement, settings: ImageShapeSettings): RawParticle[] => {
+  const width = image.naturalWidth || image.width;
+  const height = image.naturalHeight || image.height;
+  if (width === 0 || height === 0) return [];
+
+  const fit = Math.min(1, IMAGE_SHAPE.MAX_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * fit));
+  canvas.height = Math.max(1, Math.round(height * fit));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return [];
+
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const passes = (value: number) => settings.invert ? value < settings.threshold : value > settings.threshold;
+
+  return scanPixels(canvas, Math.max(1, settings.gap), (r, g, b, a) => {
+    if (settings.mode === 'alpha') return passes(a);
+    // Transparent pixels never count, whatever their color
+    if (a < 16) return false;
+    return passes(0.299 * r + 0.587 * g + 0.114 * b);
+  }, true);
+};
+
+/**
+ * Evenly distributes particles over a sphere surface (Fibonacci lattice)
+ */
+const generateSphereParticles = (count: number): RawParticle[] => {
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+  const particles: RawParticle[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const y = 1 - (i / (count - 1)) * 2;
+    const radius = Math.sqrt(1 - y * y);
+    const theta = goldenAngle * i;
+    particles.push(createParticle(
+      Math.cos(theta) * radius * SHAPE_CONFIG.SPHERE_RADIUS,
+      y * SHAPE_CONFIG.SPHERE_RADIUS,
+      Math.sin(theta) * radius * SHAPE_CONFIG.SPHERE_RADIUS,
+    ));
+  }
+  return particles;
+};
+
+/**
+ * Fills the classic parametric heart curve, puffed up in the middle for some depth
+ */
+const generateHeartParticles = (count: number): RawParticle[] => {
+  const particles: RawParticle[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const t = Math.random() * Math.PI * 2;
+    // sqrt keeps the fill density uniform across the area
+    const r = Math.sqrt(Math.random());
+    const outlineX = 16 * Math.pow(Math.sin(t), 3);
+    const outlineY = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+    const depth = Math.sqrt(1 - r * r) * 4;
+
+    particles.push(createParticle(
+      outlineX * r * SHAPE_CONFIG.HEART_SIZE,
+      outlineY * r * SHAPE_CONFIG.HEART_SIZE,
+      (Math.random() - 0.5) * depth * SHAPE_CONFIG.HEART_SIZE,
+    ));
+  }
+  return particles;
+};
+
+/**
+ * Lays particles out on a flat square grid
+ */
+const generateGridParticles = (count: number): RawParticle[] => {
+  const side = Math.ceil(Math.sqrt(count));
+  const offset = ((side - 1) * SHAPE_CONFIG.GRID_SPACING) / 2;
+  const particles: RawParticle[] = [];
+
+  for (let i = 0; i < side * side; i++) {
+    const col = i % side;
+    const row = Math.floor(i / side);
+    particles.push(createParticle(
+      col * SHAPE_CONFIG.GRID_SPACING - offset,
+      offset - row * SHAPE_CONFIG.GRID_SPACING,
+      0,
+    ));
+  }
+  return particles;
+};
+
+/**
+ * Produces the particle positions for any shape target
+ */
+export const generateShapeParticles = (target: ShapeTarget): RawParticle[] => {
+  switch (target.kind) {
+    case 'text':
+      return generateTextParticles(target.settings);
+    case 'image':
+      return generateImageParticles(target.image, target.settings);
+    case 'sphere':
+      return generateSphereParticles(SHAPE_CONFIG.PRIMITIVE_COUNT);
+    case 'heart':
+      return generateHeartParticles(SHAPE_CONFIG.PRIMITIVE_COUNT);
+    case 'grid':
+      return generateGridParticles(SHAPE_CONFIG.PRIMITIVE_COUNT);
+  }
+};
@@ -0,0 +1,220 @@
+import * as THREE from 'three';
+import { MORPH, PHYSICS } from '../constants';
+import { ParticleFill, ParticleMaterialStyle } from '../types';
+
+/**
+ * Uniforms shared by every particle material. The animation loop only writes these;
+ * all per-particle motion happens in the vertex shader.
+ */
+export const createParticleUniforms = () => ({
+  uTime: { value: 0 },           // Seconds since the scene started
+  uFlowAmount: { value: 0 },     // 0-1 wave intensity
+  uScatterAmount: { value: 0 },  // 0-1 explosion intensity
+  uScaleMultiplier: { value: 1 },
+  uMorphProgress: { value: 1 },  // 0-1 through the current shape transition
+  uWaveAmplitude: { value: PHYSICS.WAVE_AMPLITUDE },
+  uColorMode: { value: 0 },       // FILL_COLOR_MODES
+  uColorA: { value: new THREE.Color(1, 1, 1) },  // Solid color, or the left end of the gradient
+  uColorB: { value: new THREE.Color(1, 1, 1) },  // Right end of the gradient
+  uGradientRange: { value: new THREE.Vector2(-1, 1) },  // Layout x span the gradient stretches over
+  uColorShift: { value: 0 },      // 0-1 rainbow tint travelling with the flow wave
+  uBrightness: { value: 1 },      // > 1 lets particles bloom
+});
+
+export type ParticleUniforms = ReturnType<typeof createParticleUniforms>;
+
+// uColorMode per fill: 0 keeps the per-particle colors (image shapes sample theirs)
+export const FILL_COLOR_MODES: Record<ParticleFill, number> = { photos: 0, solid: 1, gradient: 2 };
+
+// Per-instance attributes, in the order rebuildMeshes fills them
+export const PARTICLE_ATTRIBUTES = {
+  aFrom: 3,            // Home position when the transition started
+  aTo: 3,              // Home position when it ends
+  aVelocity: 3,        // Random scatter direction
+  aOffset: 3,          // Displacement from home, written by the particle simulation every frame
+  aMorph: 3,           // (delay, fromScale, toScale)
+  aColorFrom: 3,       // Linear RGB tint at the start / end of the transition
+  aColorTo: 3,
+  instanceUvRect: 4,   // (offsetU, offsetV, sizeU, sizeV) into the map
+} as const;
+
+export type ParticleAttributeName = keyof typeof PARTICLE_ATTRIBUTES;
+
+const VERTEX_HEADER = /* glsl */`
+uniform float uTime;
+uniform float uFlowAmount;
+uniform float uScatterAmount;
+uniform float uScaleMultiplier;
+uniform float uMorphProgress;
+uniform float uWaveAmplitude;
+uniform float uColorMode;
+uniform vec3 uColorA;
+uniform vec3 uColorB;
+uniform vec2 uGradientRange;
+uniform float uColorShift;
+uniform float uBrightness;
+
+attribute vec3 aFrom;
+attribute vec3 aTo;
+attribute vec3 aVelocity;
+attribute vec3 aOffset;
+attribute vec3 aMorph;
+attribute vec3 aColorFrom;
+attribute vec3 aColorTo;
+attribute vec4 instanceUvRect;
+
+#ifdef PARTICLE_GLOW
+varying vec2 vParticleUv;
+#endif
+
+// Eased, staggered progress of this particle's transition
+float particleMorph() {
+  float t = clamp((uMorphProgress - aMorph.x) / (1.0 - ${MORPH.STAGGER.toFixed(3)}), 0.0, 1.0);
+  return t < 0.5 ? 4.0 * t * t * t : 1.0 - pow(-2.0 * t + 2.0, 3.0) / 2.0;
+}
+
+// Same as THREE.Euler with the default 'XYZ' order
+mat3 particleRotation(vec3 r) {
+  float cx = cos(r.x), sx = sin(r.x);
+  float cy = cos(r.y), sy = sin(r.y);
+  float cz = cos(r.z), sz = sin(r.z);
+  return mat3(
+    cy * cz, cx * sz + sx * sy * cz, sx * sz - cx * sy * cz,
+    -cy * sz, cx * cz - sx * sy * sz, sx * cz + cx * sy * sz,
+    sy, -sx * cy, cx * cy
+  );
+}
+`;
+
+const VERTEX_TRANSFORM = /* glsl */`
+  float morphT = particleMorph();
+
+  // Home position, bulging in depth while in flight
+  vec3 home = mix(aFrom, aTo, morphT);
+  home.z += sin(PI * morphT) * aVelocity.z * 2.0 * ${MORPH.ARC_HEIGHT.toFixed(3)};
+
+  vec3 offset = home;
+  vec3 rotation = vec3(0.0);
+
+  // Apply Flow/Wave (Liquid Rolling Effect)
+  if (uFlowAmount > 0.001) {
+    // Keep wave speed slow (0.2)
+    float wavePhase = home.x * 0.08 - uTime * 0.2;
+
+    // Z-axis displacement (Depth wave)
+    offset.z += sin(wavePhase) * uWaveAmplitude * uFlowAmount;
+
+    // Y-axis displacement (Vertical ripple)
+    offset.y += cos(wavePhase * 0.5) * uWaveAmplitude * 0.4 * uFlowAmount;
+
+    // Minimal rotation to keep photos visible
+    rotation.x = sin(wavePhase) * PI * 0.08 * uFlowAmount;
+    rotation.z = cos(wavePhase) * PI * 0.04 * uFlowAmount;
+  }
+
+  // Scatter, stirring and the fingertip cursor are simulated on the CPU
+  offset += aOffset;
+
+  // Tumble while scattered
+  if (uScatterAmount > 0.001) {
+    rotation.x += uTime * aVelocity.x * 10.0 * uScatterAmount;
+    rotation.y += uTime * aVelocity.y * 10.0 * uScatterAmount;
+  }
+
+  float particleScale = mix(aMorph.y, aMorph.z, morphT) * uScaleMultiplier;
+  transformed = particleRotation(rotation) * (transformed * particleScale) + offset;
+`;
+
+// Lighting follows the particle's own rotation, not just the mesh's
+const VERTEX_NORMAL = /* glsl */`
+#if defined(PARTICLE_LIT) && !defined(FLAT_SHADED)
+  vNormal = normalize(normalMatrix * (particleRotation(rotation) * objectNormal));
+#endif
+`;
+
+const VERTEX_COLOR = /* glsl */`
+#ifdef USE_INSTANCING_COLOR
+  float colorMorph = particleMorph();
+  vec3 particleColor = mix(aColorFrom, aColorTo, colorMorph);
+  float layoutX = mix(aFrom.x, aTo.x, colorMorph);
+  if (uColorMode > 1.5) {
+    float gradientT = clamp((layoutX - uGradientRange.x) / max(uGradientRange.y - uGradientRange.x, 0.0001), 0.0, 1.0);
+    particleColor = mix(uColorA, uColorB, gradientT);
+  } else if (uColorMode > 0.5) {
+    particleColor = uColorA;
+  }
+  if (uColorShift > 0.001) {
+    vec3 flowTint = 0.5 + 0.5 * cos(6.28318 * (vec3(0.0, 0.33, 0.67) + layoutX * 0.02 - uTime * 0.1));
+    particleColor *= mix(vec3(1.0), flowTint, uColorShift);
+  }
+  vColor.xyz = particleColor * uBrightness;
+#endif
+`;
+
+// Round, soft-edged point in place of the square plane
+const FRAGMENT_GLOW = /* glsl */`
+#ifdef PARTICLE_GLOW
+  diffuseColor.a *= pow(max(1.0 - length(vParticleUv - 0.5) * 2.0, 0.0), 1.5);
+#endif
+`;
+
+/**
+ * Moves the per-particle animation (morph, flow wave, tumbling, scale, the simulated
+ * offset) into the material's vertex shader and lets every instance sample its own part of the map through
+ * `instanceUvRect`. A rect of (0, 0, 1, 1) shows the whole texture.
+ */
+export const patchParticleMaterial = (material: THREE.Material, uniforms: ParticleUniforms) => {
+  material.onBeforeCompile = (shader: THREE.WebGLProgramParametersWithUniforms) => {
+    Object.assign(shader.uniforms, uniforms);
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\n${VERTEX_HEADER}`)
+      .replace(
+        '#include <uv_vertex>',
+        '#include <uv_vertex>\n#ifdef USE_MAP\n\tvMapUv = instanceUvRect.xy + vMapUv * instanceUvRect.zw;\n#endif\n#ifdef PARTICLE_GLOW\n\tvParticleUv = uv;\n#endif',
+      )
+      .replace('#include <color_vertex>', `#include <color_vertex>\n${VERTEX_COLOR}`)
+      .replace('#include <begin_vertex>', `#include <begin_vertex>\n${VERTEX_TRANSFORM}\n${VERTEX_NORMAL}`);
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', '#include <common>\n#ifdef PARTICLE_GLOW\nvarying vec2 vParticleUv;\n#endif')
+      .replace('#include <color_fragment>', `#include <color_fragment>\n${FRAGMENT_GLOW}`);
+  };
+};
+
+/**
+ * Builds the material for one atlas page in the given style. Glow points ignore the map;
+ * every style goes through patchParticleMaterial and shares the same uniforms.
+ */
+export const createParticleMaterial = (
+  style: ParticleMaterialStyle,
+  map: THREE.Texture | null,
+  color: THREE.ColorRepresentation,
+  uniforms: ParticleUniforms,
+) => {
+  const options = { color, map, side: THREE.DoubleSide, transparent: true };
+  let material;
+  if (style === 'lit') {
+    material = new THREE.MeshStandardMaterial({ ...options, roughness: 0.6, metalness: 0.1 });
+    material.defines = { PARTICLE_LIT: '' };
+  } else if (style === 'glow') {
+    // Overlapping points add up to white hot cores; depth writes would cut them into squares
+    material = new THREE.MeshBasicMaterial({ ...options, map: null, blending: THREE.AdditiveBlending, depthWrite: false });
+    material.defines = { PARTICLE_GLOW: '' };
+  } else {
+    material = new THREE.MeshBasicMaterial(options);
+  }
+  patchParticleMaterial(material, uniforms);
+  return material;
+};
+
+/**
+ * Allocates every per-instance attribute on the geometry and returns them by name
+ */
+export const createParticleAttributes = (geometry: THREE.BufferGeometry, count: number) => {
+  const attributes = {} as Record<ParticleAttributeName, THREE.InstancedBufferAttribute>;
+  (Object.keys(PARTICLE_ATTRIBUTES) as ParticleAttributeName[]).forEach(name => {
+    const itemSize = PARTICLE_ATTRIBUTES[name];
+    attributes[name] = new THREE.InstancedBufferAttribute(new Float32Array(count * itemSize), itemSize);
+    geometry.setAttribute(name, attributes[name]);
+  });
+  return attributes;
+};
@@ -0,0 +1,205 @@
+/**
+ * CPU particle dynamics. Every particle carries a displacement from its home position
+ * (where the layout and the shape morph put it) and a velocity. Forces add acceleration,
+ * and a semi-implicit Euler step integrates it. The displacement reaches the shader as
+ * the `aOffset` attribute. All state lives in flat typed arrays (xyz per particle), in
+ * the same order as the scene's particle list.
+ */
+export interface SimulationState {
+  count: number;
+  home: Float32Array;          // Rest position the spring pulls towards
+  direction: Float32Array;     // Random scatter direction and reach
+  offset: Float32Array;        // Displacement from home
+  velocity: Float32Array;
+  acceleration: Float32Array;  // Cleared every step; forces add into it
+}
+
+/**
+ * Adds one force's acceleration for every particle into `state.acceleration`
+ */
+export type ParticleForce = (state: SimulationState) => void;
+
+const allocate = (count: number): SimulationState => ({
+  count,
+  home: new Float32Array(count * 3),
+  direction: new Float32Array(count * 3),
+  offset: new Float32Array(count * 3),
+  velocity: new Float32Array(count * 3),
+  acceleration: new Float32Array(count * 3),
+});
+
+export const createParticleSimulation = () => {
+  let state = allocate(0);
+  // Largest displacement and speed after the last step
+  let lastOffset = 0;
+  let lastSpeed = 0;
+
+  /**
+   * Changes the particle count. Particles keep their index, so the ones that stay
+   * keep their motion and new ones start at rest.
+   */
+  const resize = (count: number) => {
+    if (count === state.count) return;
+    const next = allocate(count);
+    const kept = Math.min(count, state.count) * 3;
+    next.home.set(state.home.subarray(0, kept));
+    next.direction.set(state.direction.subarray(0, kept));
+    next.offset.set(state.offset.subarray(0, kept));
+    next.velocity.set(state.velocity.subarray(0, kept));
+    state = next;
+  };
+
+  const setParticle = (index: number, home: [number, number, number], direction: [number, number, number]) => {
+    state.home.set(home, index * 3);
+    state.direction.set(direction, index * 3);
+  };
+
+  /**
+   * Advances the simulation by `dt` seconds. Returns the largest displacement,
+   * so callers can tell when everything has come to rest.
+   */
+  const step = (dt: number, forces: ParticleForce[]) => {
+    const { acceleration, velocity, offset } = state;
+    acceleration.fill(0);
+    forces.forEach(force => force(state));
+
+    let maxOffset = 0;
+    let maxSpeed = 0;
+    for (let i = 0; i < offset.length; i++) {
+      velocity[i] += acceleration[i] * dt;
+      offset[i] += velocity[i] * dt;
+      maxOffset = Math.max(maxOffset, Math.abs(offset[i]));
+      maxSpeed = Math.max(maxSpeed, Math.abs(velocity[i]));
+    }
+    lastOffset = maxOffset;
+    lastSpeed = maxSpeed;
+    return maxOffset;
+  };
+
+  const reset = () => {
+    state.offset.fill(0);
+    state.velocity.fill(0);
+    lastOffset = 0;
+    lastSpeed = 0;
+  };
+
+  /**
+   * Snaps every particle home once the last step left them all closer than
+   * `restOffset` and slower than `restSpeed`, so callers can stop stepping until
+   * something pushes again. Returns whether it did.
+   */
+  const settle = (restOffset: number, restSpeed: number) => {
+    if (lastOffset >= restOffset || lastSpeed >= restSpeed) return false;
+    reset();
+    return true;
+  };
+
+  return {
+    get state() { return state; },
+    resize,
+    setParticle,
+    step,
+    reset,
+    settle,
+  };
+};
+
+export type ParticleSimulation = ReturnType<typeof createParticleSimulation>;
+
+// --- Forces ---
+
+/**
+ * Pulls every particle back to its home position
+ */
+export const springForce = (stiffness: number): ParticleForce => ({ count, offset, acceleration }) => {
+  for (let i = 0; i < count * 3; i++) acceleration[i] -= offset[i] * stiffness;
+};
+
+/**
+ * Slows particles in proportion to their speed
+ */
+export const dragForce = (coefficient: number): ParticleForce => ({ count, velocity, acceleration }) => {
+  for (let i = 0; i < count * 3; i++) acceleration[i] -= velocity[i] * coefficient;
+};
+
+export const gravityForce = (strength: number): ParticleForce => ({ count, acceleration }) => {
+  for (let i = 0; i < count; i++) acceleration[i * 3 + 1] -= strength;
+};
+
+/**
+ * Pushes every particle along its own scatter direction
+ */
+export const explosionForce = (strength: number): ParticleForce => ({ count, direction, acceleration }) => {
+  for (let i = 0; i < count * 3; i++) acceleration[i] += direction[i] * strength;
+};
+
+/**
+ * The curl of a smooth, time-varying vector potential. Like curl noise it swirls
+ * without sources or sinks, so particles eddy around instead of bunching up.
+ * Written into `out`, so the per-particle loop doesn't allocate.
+ */
+export const turbulenceField = (
+  x: number, y: number, z: number, time: number, scale: number,
+  out: [number, number, number] = [0, 0, 0],
+) => {
+  const a = Math.cos(scale * (y + z) + time);
+  const b = Math.cos(scale * (z + x) + time * 1.7);
+  const c = Math.cos(scale * (x + y) + time * 2.3);
+  out[0] = scale * (c - b);
+  out[1] = scale * (a - c);
+  out[2] = scale * (b - a);
+  return out;
+};
+
+/**
+ * Curl-noise style turbulence, scaled so `strength` is the peak acceleration
+ */
+export const turbulenceForce = (strength: number, scale: number, time: number): ParticleForce =>
+  ({ count, home, offset, acceleration }) => {
+    const gain = strength / (2 * scale);
+    const field: [number, number, number] = [0, 0, 0];
+    for (let i = 0; i < count * 3; i += 3) {
+      turbulenceField(home[i] + offset[i], home[i + 1] + offset[i + 1], home[i + 2] + offset[i + 2], time, scale, field);
+      acceleration[i] += field[0] * gain;
+      acceleration[i + 1] += field[1] * gain;
+      acceleration[i + 2] += field[2] * gain;
+    }
+  };
+
+/**
+ * Spins particles around the z axis through (centerX, centerY), strongest near the
+ * middle. Positive strength turns counter-clockwise.
+ */
+export const vortexForce = (centerX: number, centerY: number, strength: number, radius: number): ParticleForce =>
+  ({ count, home, offset, acceleration }) => {
+    for (let i = 0; i < count * 3; i += 3) {
+      const dx = home[i] + offset[i] - centerX;
+      const dy = home[i + 1] + offset[i + 1] - centerY;
+      const distance = Math.hypot(dx, dy);
+      if (distance < 1e-4) continue;
+      const push = strength / (1 + distance / radius) / distance;
+      acceleration[i] -= dy * push;
+      acceleration[i + 1] += dx * push;
+    }
+  };
+
+/**
+ * Pushes particles away from a point (negative strength attracts), fading out
+ * smoothly towards `radius`
+ */
+export const repulsorForce = (x: number, y: number, z: number, strength: number, radius: number): ParticleForce =>
+  ({ count, home, offset, acceleration }) => {
+    for (let i = 0; i < count * 3; i += 3) {
+      const dx = home[i] + offset[i] - x;
+      const dy = home[i + 1] + offset[i + 1] - y;
+      const dz = home[i + 2] + offset[i + 2] - z;
+      const distance = Math.hypot(dx, dy, dz);
+      if (distance >= radius || distance < 1e-4) continue;
+      const t = distance / radius;
+      const falloff = 1 - t * t * (3 - 2 * t);
+      const push = strength * falloff / distance;
+      acceleration[i] += dx * push;
+      acceleration[i + 1] += dy * push;
+      acceleration[i + 2] += dz * push;
+    }
+  };
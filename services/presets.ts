@@ -0,0 +1,321 @@
+import { SCENE_CONFIG, CAMERA_LIMITS, PHYSICS, IMAGE_SHAPE, PRESETS, RENDER_STYLE, ATTRACT, AUDIO, FONT_OPTIONS } from '../constants';
+import { AttractSettings, AudioSettings, AudioTarget, CameraLimits, ImageShapeSettings, PhysicsSettings, ScenePreset, SceneSettings, TextSettings, TextureSet } from '../types';
+import { isValidBinding } from './gestureBindings';
+import { isCustomGesture } from './customGestures';
+
+const toHex = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+// Starting configuration, also the fallback for anything a preset leaves out
+export const DEFAULT_TEXT_SETTINGS: TextSettings = {
+  text: SCENE_CONFIG.TEXT,
+  fontFamily: SCENE_CONFIG.FONT_FAMILY,
+  fontWeight: SCENE_CONFIG.FONT_WEIGHT,
+  fontSize: SCENE_CONFIG.FONT_SIZE,
+  lineHeight: SCENE_CONFIG.LINE_HEIGHT,
+};
+
+export const DEFAULT_IMAGE_SHAPE_SETTINGS: ImageShapeSettings = {
+  mode: IMAGE_SHAPE.DEFAULT_MODE,
+  threshold: IMAGE_SHAPE.DEFAULT_THRESHOLD,
+  invert: false,
+  gap: SCENE_CONFIG.PARTICLE_GAP,
+};
+
+export const DEFAULT_ATTRACT_SETTINGS: AttractSettings = {
+  enabled: false,
+  idleSeconds: ATTRACT.IDLE_SECONDS,
+  prompt: ATTRACT.PROMPT,
+  messages: [],
+};
+
+export const DEFAULT_SCENE_SETTINGS: SceneSettings = {
+  particleColor: toHex(SCENE_CONFIG.DEFAULT_COLOR),
+  backgroundColor: toHex(SCENE_CONFIG.BG_COLOR),
+  physics: {
+    pullAcceleration: PHYSICS.PULL_ACCELERATION,
+    pushAcceleration: PHYSICS.PUSH_ACCELERATION,
+    damping: PHYSICS.DAMPING,
+    flowLerp: PHYSICS.FLOW_LERP,
+    scatterTriggerZ: PHYSICS.SCATTER_TRIGGER_Z,
+    waveAmplitude: PHYSICS.WAVE_AMPLITUDE,
+    scatterDistance: PHYSICS.SCATTER_DISTANCE,
+    scaleMultiplier: PHYSICS.OK_SCALE_MULTIPLIER,
+    springStiffness: PHYSICS.SPRING_STIFFNESS,
+    drag: PHYSICS.DRAG,
+    turbulence: PHYSICS.TURBULENCE,
+    gravity: PHYSICS.GRAVITY,
+  },
+  camera: {
+    minZ: CAMERA_LIMITS.MIN_Z,
+    maxZ: CAMERA_LIMITS.MAX_Z,
+    defaultZ: CAMERA_LIMITS.DEFAULT_Z,
+  },
+  render: {
+    material: 'basic',
+    fill: 'photos',
+    gradientColor: toHex(RENDER_STYLE.GRADIENT_COLOR),
+    bloom: false,
+    bloomStrength: RENDER_STYLE.BLOOM_STRENGTH,
+    trails: false,
+    reactive: false,
+  },
+  audio: {
+    routes: {
+      flow: { band: 'mid', amount: 0.8 },
+      scatter: { band: 'bass', amount: 0.6 },
+      scale: { band: 'treble', amount: 0.5 },
+    },
+    sensitivity: AUDIO.SENSITIVITY,
+    musicVolume: AUDIO.MUSIC_VOLUME,
+    cueVolume: AUDIO.CUE_VOLUME,
+  },
+};
+
+// Ranges of the sliders (tuning panel, text and image controls). Presets are clamped
+// to them too, so a file or a peer can't set values the controls never would.
+export const PHYSICS_RANGES: Record<keyof PhysicsSettings, [number, number]> = {
+  pullAcceleration: [0, 0.5],
+  pushAcceleration: [0, 0.5],
+  damping: [0.8, 0.999],
+  flowLerp: [0.001, 0.2],
+  scatterTriggerZ: [0, 40],
+  waveAmplitude: [0, 20],
+  scatterDistance: [0, 200],
+  scaleMultiplier: [0.5, 6],
+  springStiffness: [0.5, 60],
+  drag: [0, 20],
+  turbulence: [0, 10],
+  gravity: [0, 100],
+};
+
+export const TEXT_RANGES: Record<'fontSize' | 'lineHeight', [number, number]> = {
+  fontSize: [40, 240],
+  lineHeight: [0.8, 2],
+};
+
+export const IMAGE_SHAPE_RANGES: Record<'threshold' | 'gap', [number, number]> = {
+  threshold: [0, 255],
+  gap: [1, 8],
+};
+
+// Camera distances have no slider; this only keeps them positive and in view of the fog
+const CAMERA_Z_RANGE: [number, number] = [1, 100];
+
+// --- Validation of decoded presets (hand-written files, storage, the relay, #preset=<url>) ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+const oneOf = <T extends string>(value: unknown, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+/**
+ * Takes every field of `defaults` from `stored` when it has the same primitive type
+ * (and numbers are finite), so a hand-written file can't put a string where a number
+ * is read. Anything missing or mistyped keeps the default.
+ */
+const mergeFields = <T extends object>(defaults: T, stored: unknown): T => {
+  const result = { ...defaults };
+  if (!isRecord(stored)) return result;
+  (Object.keys(defaults) as (keyof T & string)[]).forEach(key => {
+    const value = stored[key];
+    const fallback = defaults[key];
+    if (typeof fallback === 'object') return;  // Nested sections are checked by their own merge
+    if (typeof value !== typeof fallback || (typeof value === 'number' && !Number.isFinite(value))) return;
+    result[key] = value as T[keyof T & string];
+  });
+  return result;
+};
+
+const isTextureSet = (value: unknown): value is TextureSet =>
+  isRecord(value)
+  && Array.isArray(value.thumbnails)
+  && value.thumbnails.every(thumbnail => typeof thumbnail === 'string')
+  && (value.mosaic === null || value.mosaic === undefined || typeof value.mosaic === 'string');
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const clampFields = <T extends object>(values: T, ranges: Partial<Record<keyof T, [number, number]>>): T => {
+  const result = { ...values };
+  (Object.keys(ranges) as (keyof T)[]).forEach(key => {
+    const [min, max] = ranges[key]!;
+    result[key] = clamp(result[key] as number, min, max) as T[keyof T];
+  });
+  return result;
+};
+
+/**
+ * Text settings from a preset or a peer, merged over the defaults and clamped to the
+ * text controls. Throws when there is no text at all.
+ */
+export const normalizeTextSettings = (value: unknown): TextSettings => {
+  if (!isRecord(value) || typeof value.text !== 'string') throw new Error('Not text settings');
+  const text = clampFields(mergeFields(DEFAULT_TEXT_SETTINGS, value), TEXT_RANGES);
+  return {
+    ...text,
+    fontFamily: oneOf(text.fontFamily, FONT_OPTIONS.FAMILIES, DEFAULT_TEXT_SETTINGS.fontFamily),
+    fontWeight: oneOf(text.fontWeight, FONT_OPTIONS.WEIGHTS, DEFAULT_TEXT_SETTINGS.fontWeight),
+  };
+};
+
+// The closest distance first, the starting one between the two
+const mergeCameraLimits = (stored: unknown): CameraLimits => {
+  const camera = clampFields(mergeFields(DEFAULT_SCENE_SETTINGS.camera, stored), {
+    minZ: CAMERA_Z_RANGE,
+    maxZ: CAMERA_Z_RANGE,
+    defaultZ: CAMERA_Z_RANGE,
+  });
+  const maxZ = Math.max(camera.minZ, camera.maxZ);
+  return { minZ: camera.minZ, maxZ, defaultZ: clamp(camera.defaultZ, camera.minZ, maxZ) };
+};
+
+// Upper limits of the audio panel's sliders
+const AUDIO_ROUTE_MAX: Record<AudioTarget, number> = { flow: 1, scatter: 1, scale: 2 };
+
+// The scene indexes the analyzer's levels with the band and the Web Audio gains reject non-numbers
+const mergeAudioSettings = (stored: unknown): AudioSettings => {
+  const defaults = DEFAULT_SCENE_SETTINGS.audio;
+  const audio = mergeFields(defaults, stored);
+  const storedRoutes = isRecord(stored) && isRecord(stored.routes) ? stored.routes : {};
+  const routes = { ...defaults.routes };
+  (Object.keys(routes) as AudioTarget[]).forEach(target => {
+    const route = mergeFields(defaults.routes[target], storedRoutes[target]);
+    routes[target] = {
+      band: oneOf(route.band, ['off', 'bass', 'mid', 'treble'], defaults.routes[target].band),
+      amount: clamp(route.amount, 0, AUDIO_ROUTE_MAX[target]),
+    };
+  });
+  return {
+    routes,
+    sensitivity: clamp(audio.sensitivity, 0, AUDIO.MAX_SENSITIVITY),
+    musicVolume: clamp(audio.musicVolume, 0, 1),
+    cueVolume: clamp(audio.cueVolume, 0, 1),
+  };
+};
+
+// Fills settings missing from older presets with the current defaults
+const mergeSceneSettings = (stored: unknown): SceneSettings => {
+  const scene = isRecord(stored) ? stored : {};
+  const defaults = DEFAULT_SCENE_SETTINGS;
+  const render = mergeFields(defaults.render, scene.render);
+  return {
+    particleColor: isColor(scene.particleColor) ? scene.particleColor : defaults.particleColor,
+    backgroundColor: isColor(scene.backgroundColor) ? scene.backgroundColor : defaults.backgroundColor,
+    physics: clampFields(mergeFields(defaults.physics, scene.physics), PHYSICS_RANGES),
+    camera: mergeCameraLimits(scene.camera),
+    render: {
+      ...render,
+      material: oneOf(render.material, ['basic', 'lit', 'glow'], defaults.render.material),
+      fill: oneOf(render.fill, ['photos', 'solid', 'gradient'], defaults.render.fill),
+      gradientColor: isColor(render.gradientColor) ? render.gradientColor : defaults.render.gradientColor,
+    },
+    audio: mergeAudioSettings(scene.audio),
+  };
+};
+
+/**
+ * Checks a decoded preset (from a file, storage or the sync relay). Throws when it
+ * isn't a preset; fields added after it was written, or of the wrong type, fall back
+ * to the defaults, and numbers are clamped to the ranges of their controls.
+ */
+export const normalizePreset = (value: unknown): ScenePreset => {
+  const parsed = isRecord(value) ? value : {};
+  if (parsed.version !== 1 || typeof parsed.name !== 'string' || !isRecord(parsed.text) || typeof parsed.text.text !== 'string') {
+    throw new Error('Not a scene preset');
+  }
+  const textureSets = Array.isArray(parsed.textureSets)
+    ? parsed.textureSets.filter(isTextureSet).map(set => ({ thumbnails: set.thumbnails, mosaic: set.mosaic ?? null }))
+    : [];
+  const textureSetIndex = typeof parsed.textureSetIndex === 'number' && Number.isInteger(parsed.textureSetIndex)
+    ? parsed.textureSetIndex
+    : 0;
+  const imageShape = clampFields(mergeFields(DEFAULT_IMAGE_SHAPE_SETTINGS, parsed.imageShape), IMAGE_SHAPE_RANGES);
+  const customGestures = Array.isArray(parsed.customGestures) ? parsed.customGestures.filter(isCustomGesture) : [];
+  const attract = isRecord(parsed.attract) ? parsed.attract : {};
+  return {
+    version: 1,
+    name: parsed.name,
+    savedAt: typeof parsed.savedAt === 'string' ? parsed.savedAt : new Date().toISOString(),
+    text: normalizeTextSettings(parsed.text),
+    scene: mergeSceneSettings(parsed.scene),
+    bindings: Array.isArray(parsed.bindings) ? parsed.bindings.filter(binding => isValidBinding(binding, customGestures)) : [],
+    customGestures,
+    textureSets: textureSets.length > 0 ? textureSets : [{ thumbnails: [], mosaic: null }],
+    textureSetIndex: Math.min(Math.max(0, textureSetIndex), Math.max(0, textureSets.length - 1)),
+    textureMode: oneOf(parsed.textureMode, ['random', 'mosaic'], 'random'),
+    shapeImage: typeof parsed.shapeImage === 'string' ? parsed.shapeImage : null,
+    imageShape: { ...imageShape, mode: oneOf(imageShape.mode, ['alpha', 'luminance'], DEFAULT_IMAGE_SHAPE_SETTINGS.mode) },
+    attract: {
+      ...mergeFields(DEFAULT_ATTRACT_SETTINGS, attract),
+      messages: Array.isArray(attract.messages)
+        ? attract.messages.filter((message: unknown): message is string => typeof message === 'string')
+        : [],
+    },
+  };
+};
+
+export const parsePreset = (json: string): ScenePreset => normalizePreset(JSON.parse(json));
+
+export const serializePreset = (preset: ScenePreset) => JSON.stringify(preset);
+
+export const presetFileName = (name: string) =>
+  `${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'preset'}.preset.json`;
+
+// --- IndexedDB storage (presets with embedded photos outgrow localStorage) ---
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(PRESETS.DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(PRESETS.STORE_NAME, { keyPath: 'name' });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Runs one request against the preset store and closes the database afterwards
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(PRESETS.STORE_NAME, mode).objectStore(PRESETS.STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const listPresets = async (): Promise<ScenePreset[]> => {
+  const stored = await withStore<unknown[]>('readonly', store => store.getAll());
+  return stored
+    .flatMap(entry => {
+      try {
+        return [parsePreset(JSON.stringify(entry))];
+      } catch {
+        return [];  // Skip entries this version can't read
+      }
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Saving under an existing name replaces that preset
+export const savePreset = (preset: ScenePreset) => withStore('readwrite', store => store.put(preset)).then(() => undefined);
+
+export const deletePreset = (name: string) => withStore('readwrite', store => store.delete(name)).then(() => undefined);
+
+// --- URL hash ---
+
+/**
+ * Reads `#preset=…` from a location hash: either the name of a saved preset or
+ * the URL of a preset file (absolute, or relative to the page).
+ */
+export const readPresetHash = (hash: string): { name: string } | { url: string } | null => {
+  const value = new URLSearchParams(hash.replace(/^#/, '')).get(PRESETS.HASH_KEY);
+  if (!value) return null;
+  return /^(https?:|\.{0,2}\/)|\.json$/i.test(value) ? { url: value } : { name: value };
+};
+
+export const presetHash = (name: string) => `#${new URLSearchParams({ [PRESETS.HASH_KEY]: name })}`;
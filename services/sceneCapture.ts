@@ -0,0 +1,89 @@
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { CAPTURE } from '../constants';
+
+/**
+ * Renders one frame at an arbitrary size and returns it as a PNG. The renderer and
+ * camera are resized for that single frame and restored right after, so the live view
+ * only skips a beat. Sizes are clamped to what the GPU can render in one pass.
+ * Pass the composer when post-processing is on so the picture matches the screen.
+ */
+export const renderSnapshot = (
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.PerspectiveCamera,
+  width: number,
+  height: number,
+  composer?: EffectComposer,
+): Promise<Blob> => {
+  const maxSize = Math.min(renderer.capabilities.maxTextureSize, CAPTURE.MAX_SNAPSHOT_SIZE);
+  const fit = Math.min(1, maxSize / Math.max(width, height));
+  const targetWidth = Math.max(1, Math.round(width * fit));
+  const targetHeight = Math.max(1, Math.round(height * fit));
+
+  const previousSize = renderer.getSize(new THREE.Vector2());
+  const previousPixelRatio = renderer.getPixelRatio();
+  const previousAspect = camera.aspect;
+
+  const draw = () => (composer ? composer.render() : renderer.render(scene, camera));
+  const resize = (pixelRatio: number, w: number, h: number) => {
+    renderer.setPixelRatio(pixelRatio);
+    renderer.setSize(w, h, false);
+    composer?.setPixelRatio(pixelRatio);
+    composer?.setSize(w, h);
+    camera.aspect = w / h;
+    camera.updateProjectionMatrix();
+  };
+
+  resize(1, targetWidth, targetHeight);
+  draw();
+
+  // toBlob copies the drawing buffer immediately, so the size can be restored afterwards
+  const blob = new Promise<Blob>((resolve, reject) => {
+    renderer.domElement.toBlob((result: Blob | null) => {
+      if (result) resolve(result);
+      else reject(new Error('Snapshot failed'));
+    }, 'image/png');
+  });
+
+  resize(previousPixelRatio, previousSize.x, previousSize.y);
+  camera.aspect = previousAspect;
+  camera.updateProjectionMatrix();
+  draw();
+
+  return blob;
+};
+
+const pickVideoType = () =>
+  ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+    .find(type => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type)) ?? null;
+
+export const isRecordingSupported = () => pickVideoType() !== null;
+
+/**
+ * Records a canvas to WebM. `stop` resolves with the finished video.
+ */
+export const createCanvasRecorder = (canvas: HTMLCanvasElement) => {
+  const type = pickVideoType();
+  if (!type) throw new Error('WebM recording is not supported in this browser');
+
+  const stream = canvas.captureStream(CAPTURE.VIDEO_FPS);
+  const recorder = new MediaRecorder(stream, { mimeType: type, videoBitsPerSecond: CAPTURE.VIDEO_BITRATE });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event: BlobEvent) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  const start = () => recorder.start(CAPTURE.VIDEO_TIMESLICE_MS);
+
+  const stop = (): Promise<Blob> => new Promise(resolve => {
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      resolve(new Blob(chunks, { type: 'video/webm' }));
+    };
+    if (recorder.state !== 'inactive') recorder.stop();
+    else recorder.onstop(new Event('stop'));
+  });
+
+  return { start, stop };
+};
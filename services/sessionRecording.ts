@@ -0,0 +1,113 @@
+import { Handedness, NormalizedLandmarkList, RecordedFrame, RecordedSession } from '../types';
+
+// The parts of a MediaPipe result the recognition pipeline reads
+export type LandmarkFrame = Pick<RecordedFrame, 'multiHandLandmarks' | 'multiHandedness'>;
+
+const round = (value: number) => Math.round(value * 1e5) / 1e5;
+
+/**
+ * Captures the landmark stream (without the camera image) so it can be saved to JSON
+ */
+export const createSessionRecorder = () => {
+  let frames: RecordedFrame[] = [];
+  let startedAt: number | null = null;
+
+  const start = (timestamp: number) => {
+    frames = [];
+    startedAt = timestamp;
+  };
+
+  const record = (results: LandmarkFrame, timestamp: number) => {
+    if (startedAt === null) return;
+    frames.push({
+      t: Math.round(timestamp - startedAt),
+      multiHandLandmarks: (results.multiHandLandmarks ?? []).map(landmarks =>
+        landmarks.map(({ x, y, z }) => ({ x: round(x), y: round(y), z: round(z) })),
+      ),
+      multiHandedness: (results.multiHandedness ?? []).map(({ index, score, label }) => ({ index, score: round(score), label })),
+    });
+  };
+
+  const stop = (): RecordedSession => {
+    startedAt = null;
+    return { version: 1, recordedAt: new Date().toISOString(), frames };
+  };
+
+  return { start, record, stop, isRecording: () => startedAt !== null };
+};
+
+// The fingertip pointer carries z into the scene, so every point needs one
+const isLandmarkList = (value: unknown): value is NormalizedLandmarkList =>
+  Array.isArray(value) && value.every(point =>
+    typeof point?.x === 'number' && typeof point?.y === 'number' && typeof point?.z === 'number');
+
+const isFrame = (value: unknown): value is RecordedFrame => {
+  const frame = value as RecordedFrame;
+  return typeof frame?.t === 'number'
+    && Array.isArray(frame.multiHandLandmarks)
+    && frame.multiHandLandmarks.every(isLandmarkList)
+    && Array.isArray(frame.multiHandedness)
+    && frame.multiHandedness.every((handedness: Handedness) => typeof handedness?.label === 'string');
+};
+
+/**
+ * Parses a saved session. Throws when the content isn't one.
+ */
+export const parseSession = (json: string): RecordedSession => {
+  const parsed = JSON.parse(json);
+  if (parsed?.version !== 1 || !Array.isArray(parsed.frames) || !parsed.frames.every(isFrame)) {
+    throw new Error('Not a recorded session');
+  }
+  return parsed;
+};
+
+/**
+ * Feeds a recorded session back frame by frame with its original timing.
+ * `onFrame` receives a timestamp on the same clock as performance.now().
+ * `loop` is asked at the end of each pass, so it can change while playing.
+ */
+export const createSessionPlayer = (
+  session: RecordedSession,
+  onFrame: (frame: LandmarkFrame, timestamp: number) => void,
+  options: { loop: () => boolean; onEnd?: () => void },
+) => {
+  const frames = session.frames;
+  const duration = frames.length > 0 ? frames[frames.length - 1].t : 0;
+  let reqId: number | null = null;
+  let startTime = 0;
+  let next = 0;
+
+  const tick = () => {
+    const elapsed = performance.now() - startTime;
+    while (next < frames.length && frames[next].t <= elapsed) {
+      onFrame(frames[next], startTime + frames[next].t);
+      next++;
+    }
+
+    if (next >= frames.length) {
+      if (!options.loop() || frames.length === 0) {
+        reqId = null;
+        options.onEnd?.();
+        return;
+      }
+      // Continue the clock so timestamps keep increasing across loops
+      startTime += duration + 1;
+      next = 0;
+    }
+    reqId = requestAnimationFrame(tick);
+  };
+
+  const start = () => {
+    stop();
+    startTime = performance.now();
+    next = 0;
+    reqId = requestAnimationFrame(tick);
+  };
+
+  const stop = () => {
+    if (reqId !== null) cancelAnimationFrame(reqId);
+    reqId = null;
+  };
+
+  return { start, stop, duration };
+};
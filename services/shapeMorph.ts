@@ -0,0 +1,136 @@
+import { MORPH } from '../constants';
+import { RawParticle } from './particleLayout';
+
+export interface MorphParticle extends RawParticle {
+  // Where the current transition started and where it ends
+  fromX: number;
+  fromY: number;
+  fromZ: number;
+  toX: number;
+  toY: number;
+  toZ: number;
+  // Tint blends along with the position
+  fromR: number;
+  fromG: number;
+  fromB: number;
+  toR: number;
+  toG: number;
+  toB: number;
+  // Size factor (0 = invisible), animated for spawning / retiring particles
+  scale: number;
+  fromScale: number;
+  toScale: number;
+  // Fraction of the transition this particle waits before leaving
+  delay: number;
+  // Particle is shrinking away and gets removed once the transition ends
+  retiring: boolean;
+}
+
+const easeInOutCubic = (t: number) => {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+};
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Creates a particle that is already resting at its layout position
+ */
+export const createSettledParticle = (p: RawParticle): MorphParticle => ({
+  ...p,
+  fromX: p.x, fromY: p.y, fromZ: p.z,
+  toX: p.x, toY: p.y, toZ: p.z,
+  fromR: p.r, fromG: p.g, fromB: p.b,
+  toR: p.r, toG: p.g, toB: p.b,
+  scale: 1,
+  fromScale: 1,
+  toScale: 1,
+  delay: 0,
+  retiring: false,
+});
+
+/**
+ * Starts a transition from wherever the particles currently are to a new layout.
+ * Surplus particles retire into the new shape while shrinking; missing ones are
+ * spawned (at size 0) from random existing particles so they appear to split off.
+ */
+export const retargetParticles = (particles: MorphParticle[], layout: RawParticle[]): MorphParticle[] => {
+  const targets = shuffle(layout);
+  const total = Math.max(particles.length, targets.length);
+  const result: MorphParticle[] = [];
+
+  for (let i = 0; i < total; i++) {
+    const existing = particles[i];
+    const target = targets[i] ?? targets[Math.floor(Math.random() * targets.length)];
+
+    if (existing) {
+      result.push({
+        ...existing,
+        fromX: existing.x, fromY: existing.y, fromZ: existing.z,
+        toX: target ? target.x : existing.x,
+        toY: target ? target.y : existing.y,
+        toZ: target ? target.z : existing.z,
+        fromR: existing.r, fromG: existing.g, fromB: existing.b,
+        toR: target ? target.r : existing.r,
+        toG: target ? target.g : existing.g,
+        toB: target ? target.b : existing.b,
+        fromScale: existing.scale,
+        toScale: i < targets.length ? 1 : 0,
+        delay: Math.random() * MORPH.STAGGER,
+        retiring: i >= targets.length,
+      });
+      continue;
+    }
+
+    const source = particles.length > 0 ? particles[Math.floor(Math.random() * particles.length)] : target;
+    result.push({
+      ...target,
+      x: source.x, y: source.y, z: source.z,
+      fromX: source.x, fromY: source.y, fromZ: source.z,
+      toX: target.x, toY: target.y, toZ: target.z,
+      fromR: target.r, fromG: target.g, fromB: target.b,
+      toR: target.r, toG: target.g, toB: target.b,
+      scale: 0,
+      fromScale: 0,
+      toScale: 1,
+      delay: Math.random() * MORPH.STAGGER,
+      retiring: false,
+    });
+  }
+  return result;
+};
+
+/**
+ * Moves every particle along its transition; progress runs from 0 to 1
+ */
+export const stepMorph = (particles: MorphParticle[], progress: number) => {
+  for (let i = 0; i < particles.length; i++) {
+    const p = particles[i];
+    const local = Math.min(Math.max((progress - p.delay) / (1 - MORPH.STAGGER), 0), 1);
+    const t = easeInOutCubic(local);
+
+    // Bulge the flight path in depth so particles don't just slide in a straight line
+    const arc = Math.sin(Math.PI * t) * p.vz * 2 * MORPH.ARC_HEIGHT;
+
+    p.x = p.fromX + (p.toX - p.fromX) * t;
+    p.y = p.fromY + (p.toY - p.fromY) * t;
+    p.z = p.fromZ + (p.toZ - p.fromZ) * t + arc;
+    p.r = p.fromR + (p.toR - p.fromR) * t;
+    p.g = p.fromG + (p.toG - p.fromG) * t;
+    p.b = p.fromB + (p.toB - p.fromB) * t;
+    p.scale = p.fromScale + (p.toScale - p.fromScale) * t;
+  }
+};
+
+/**
+ * Drops retired particles once a transition has completed
+ */
+export const finishMorph = (particles: MorphParticle[]): MorphParticle[] => {
+  return particles.filter(p => !p.retiring);
+};
@@ -0,0 +1,112 @@
+import { AUDIO } from '../constants';
+import { SoundCue } from '../types';
+
+/**
+ * Gesture feedback sounds, synthesized with Web Audio so the kiosk build needs no
+ * sound files. Each cue writes into `out` starting at `at` (context time).
+ */
+type CueSynth = (context: AudioContext, out: AudioNode, at: number, noise: AudioBuffer) => void;
+
+// Band-passed noise sweeping up and back down, like air rushing past
+const whoosh: CueSynth = (context, out, at, noise) => {
+  const source = context.createBufferSource();
+  source.buffer = noise;
+  const filter = context.createBiquadFilter();
+  filter.type = 'bandpass';
+  filter.Q.value = 1.5;
+  filter.frequency.setValueAtTime(300, at);
+  filter.frequency.exponentialRampToValueAtTime(2400, at + 0.25);
+  filter.frequency.exponentialRampToValueAtTime(500, at + 0.6);
+  const gain = context.createGain();
+  gain.gain.setValueAtTime(0.0001, at);
+  gain.gain.exponentialRampToValueAtTime(0.8, at + 0.15);
+  gain.gain.exponentialRampToValueAtTime(0.0001, at + 0.6);
+  source.connect(filter).connect(gain).connect(out);
+  source.start(at);
+  source.stop(at + 0.6);
+};
+
+// A quick cascade of high, slightly random partials
+const shimmer: CueSynth = (context, out, at) => {
+  for (let i = 0; i < 6; i++) {
+    const start = at + i * 0.04;
+    const osc = context.createOscillator();
+    osc.type = 'sine';
+    osc.frequency.value = 1800 + Math.random() * 2400;
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(0.15, start + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.8);
+    osc.connect(gain).connect(out);
+    osc.start(start);
+    osc.stop(start + 0.8);
+  }
+};
+
+// A bell: inharmonic partials, the higher ones dying away sooner
+const CHIME_PARTIALS = [[1, 0.5], [2.76, 0.25], [5.4, 0.12], [8.93, 0.06]];
+const chime: CueSynth = (context, out, at) => {
+  CHIME_PARTIALS.forEach(([ratio, level], i) => {
+    const decay = 1.8 / (i + 1);
+    const osc = context.createOscillator();
+    osc.type = 'sine';
+    osc.frequency.value = 880 * ratio;
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0.0001, at);
+    gain.gain.exponentialRampToValueAtTime(level, at + 0.005);
+    gain.gain.exponentialRampToValueAtTime(0.0001, at + decay);
+    osc.connect(gain).connect(out);
+    osc.start(at);
+    osc.stop(at + decay);
+  });
+};
+
+const CUES: Record<SoundCue, CueSynth> = { whoosh, shimmer, chime };
+
+export const createSoundCues = () => {
+  let context: AudioContext | null = null;
+  let noise: AudioBuffer | null = null;
+  const lastPlayed = new Map<SoundCue, number>();
+
+  const getContext = () => {
+    if (!context) {
+      context = new AudioContext();
+      noise = context.createBuffer(1, context.sampleRate, context.sampleRate);
+      const data = noise.getChannelData(0);
+      for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    }
+    return context;
+  };
+
+  /**
+   * Browsers keep audio suspended until the page is interacted with; call this
+   * from an input event so cues can play later without one
+   */
+  const unlock = () => {
+    const audio = getContext();
+    if (audio.state === 'suspended') audio.resume();
+  };
+
+  const play = (cue: SoundCue, volume: number) => {
+    const now = performance.now();
+    if (volume <= 0 || now - (lastPlayed.get(cue) ?? -Infinity) < AUDIO.CUE_INTERVAL_MS) return;
+    lastPlayed.set(cue, now);
+
+    const audio = getContext();
+    if (audio.state === 'suspended') audio.resume();
+    const out = audio.createGain();
+    out.gain.value = volume;
+    out.connect(audio.destination);
+    CUES[cue](audio, out, audio.currentTime, noise!);
+  };
+
+  const close = () => {
+    context?.close();
+    context = null;
+    noise = null;
+  };
+
+  return { unlock, play, close };
+};
+
+export type SoundCues = ReturnType<typeof createSoundCues>;
@@ -0,0 +1,167 @@
+import { SYNC } from '../constants';
+import { HandState, Landmark, MotionGesture, MotionState, SyncMessage, SyncSettings, SyncStatus, TextureSet, TrackedHand } from '../types';
+import { normalizePreset, normalizeTextSettings } from './presets';
+
+/**
+ * The relay is expected on the machine serving the page, so a display opened at
+ * http://192.168.1.20:3000 connects to ws://192.168.1.20:8787
+ */
+export const defaultSyncUrl = (hostname: string) => `ws://${hostname || 'localhost'}:${SYNC.PORT}`;
+
+/**
+ * Sync settings from the page address, so a display can be bookmarked ready to go:
+ * ?sync connects to the default relay, ?sync=ws://host:port to another one;
+ * &room=<name> picks the room and &broadcast sends this tab's hands
+ */
+export const readSyncParams = (search: string, hostname: string): SyncSettings => {
+  const params = new URLSearchParams(search);
+  const sync = params.get('sync');
+  return {
+    enabled: sync !== null,
+    url: sync && /^wss?:\/\//.test(sync) ? sync : defaultSyncUrl(hostname),
+    room: params.get('room') || SYNC.DEFAULT_ROOM,
+    broadcast: params.has('broadcast'),
+  };
+};
+
+// --- Checks on what other clients send (the relay forwards anything from the network) ---
+
+const HAND_LANDMARKS = 21;
+const HAND_STATE_NUMBERS: (keyof HandState)[] = ['palmX', 'palmY', 'proximity', 'roll', 'openness', 'pinch'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPoint = (value: unknown): value is Landmark =>
+  isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y) && isFiniteNumber(value.z);
+
+const isHandState = (value: unknown): value is HandState =>
+  isRecord(value) && HAND_STATE_NUMBERS.every(key => isFiniteNumber(value[key])) && isPoint(value.pointer);
+
+// Motion is transient, so anything unexpected in it is dropped rather than the whole hand
+const readMotion = (value: unknown): MotionState => {
+  const motion = isRecord(value) ? value : {};
+  const { swipe, pinchDrag, stir } = motion;
+  return {
+    swipe: Object.values(MotionGesture).includes(swipe as MotionGesture) ? swipe as MotionGesture : null,
+    pinchDrag: isRecord(pinchDrag) && isFiniteNumber(pinchDrag.dx) && isFiniteNumber(pinchDrag.dy)
+      ? { dx: pinchDrag.dx, dy: pinchDrag.dy }
+      : null,
+    stir: isRecord(stir) && (stir.direction === 'CW' || stir.direction === 'CCW') && isFiniteNumber(stir.strength)
+      ? { direction: stir.direction, strength: stir.strength }
+      : null,
+  };
+};
+
+const readTrackedHand = (value: unknown): TrackedHand | null => {
+  if (!isRecord(value)) return null;
+  const { label, gesture, gestureDuration, state, landmarks } = value;
+  if ((label !== 'Left' && label !== 'Right') || typeof gesture !== 'string' || !isFiniteNumber(gestureDuration)) return null;
+  if (!isHandState(state) || !Array.isArray(landmarks) || landmarks.length !== HAND_LANDMARKS || !landmarks.every(isPoint)) return null;
+  return { label, gesture, gestureDuration, state, motion: readMotion(value.motion), landmarks };
+};
+
+const readTextureSet = (value: unknown): TextureSet | null => {
+  if (!isRecord(value) || !Array.isArray(value.thumbnails)) return null;
+  const isImage = (url: unknown) => typeof url === 'string' && url.startsWith('data:image/');
+  if (!value.thumbnails.every(isImage)) return null;
+  if (value.mosaic !== undefined && value.mosaic !== null && !isImage(value.mosaic)) return null;
+  return { thumbnails: value.thumbnails, mosaic: (value.mosaic as string | undefined) ?? null };
+};
+
+/**
+ * Decodes a relayed message. Anything malformed or unknown (e.g. from a newer
+ * version in the same room) becomes null.
+ */
+export const parseSyncMessage = (data: string): SyncMessage | null => {
+  try {
+    const message = JSON.parse(data);
+    switch (message?.type) {
+      case 'hands': {
+        if (!Array.isArray(message.hands)) return null;
+        const hands = message.hands.map(readTrackedHand);
+        return hands.every(Boolean) ? { type: 'hands', hands: hands as TrackedHand[] } : null;
+      }
+      case 'text':
+        return { type: 'text', text: normalizeTextSettings(message.text) };
+      case 'textures': {
+        const textureSet = readTextureSet(message.textureSet);
+        return textureSet ? { type: 'textures', textureSet } : null;
+      }
+      case 'preset':
+        return { type: 'preset', preset: normalizePreset(message.preset) };
+      case 'peers':
+        return typeof message.count === 'number' ? { type: 'peers', count: message.count } : null;
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Keeps a connection to the relay open until closed, reconnecting with backoff.
+ * Messages sent while disconnected are dropped; `send` reports whether it went out.
+ */
+export const createSyncChannel = (
+  url: string,
+  room: string,
+  handlers: { onMessage: (message: SyncMessage) => void; onStatus: (status: SyncStatus) => void },
+) => {
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let retryMs = SYNC.RECONNECT_MS;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const connect = () => {
+    let target: URL;
+    try {
+      target = new URL(url);
+      target.searchParams.set('room', room);
+    } catch {
+      handlers.onStatus('off');
+      return;
+    }
+
+    handlers.onStatus('connecting');
+    socket = new WebSocket(target.toString());
+    socket.onopen = () => {
+      retryMs = SYNC.RECONNECT_MS;
+      handlers.onStatus('connected');
+    };
+    socket.onmessage = (event: MessageEvent) => {
+      if (typeof event.data !== 'string') return;
+      const message = parseSyncMessage(event.data);
+      if (message) handlers.onMessage(message);
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      handlers.onStatus('connecting');
+      retryTimer = setTimeout(connect, retryMs);
+      retryMs = Math.min(retryMs * 2, SYNC.MAX_RECONNECT_MS);
+    };
+  };
+
+  const send = (message: SyncMessage) => {
+    if (socket?.readyState !== WebSocket.OPEN) return false;
+    socket.send(JSON.stringify(message));
+    return true;
+  };
+
+  const close = () => {
+    closed = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    socket?.close();
+    socket = null;
+    handlers.onStatus('off');
+  };
+
+  connect();
+  return { send, close };
+};
+
+export type SyncChannel = ReturnType<typeof createSyncChannel>;
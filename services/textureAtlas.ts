@@ -0,0 +1,204 @@
+import { ATLAS, MOSAIC } from '../constants';
+import { TextureSet } from '../types';
+
+// UV rectangle of one image inside an atlas page (0-1 space, origin bottom-left)
+export interface AtlasTile {
+  u: number;
+  v: number;
+  width: number;
+  height: number;
+}
+
+export interface AtlasPage {
+  canvas: HTMLCanvasElement;
+  tiles: AtlasTile[];
+}
+
+/**
+ * Loads an image element (CORS-enabled so it can be drawn into a readable canvas)
+ */
+export const loadImage = (url: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load image: ${url}`));
+    image.src = url;
+  });
+};
+
+/**
+ * Generates the placeholder photo shown before anything is uploaded, so the default
+ * look needs no network: a diagonal indigo → pink → amber gradient with a soft highlight.
+ */
+export const createDefaultImage = (size: number): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas.toDataURL();
+
+  const gradient = ctx.createLinearGradient(0, 0, size, size);
+  gradient.addColorStop(0, '#6366f1');
+  gradient.addColorStop(0.55, '#ec4899');
+  gradient.addColorStop(1, '#f59e0b');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, size, size);
+
+  const highlight = ctx.createRadialGradient(size * 0.3, size * 0.3, 0, size * 0.3, size * 0.3, size * 0.7);
+  highlight.addColorStop(0, 'rgba(255, 255, 255, 0.45)');
+  highlight.addColorStop(1, 'rgba(255, 255, 255, 0)');
+  ctx.fillStyle = highlight;
+  ctx.fillRect(0, 0, size, size);
+
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Downscales an uploaded file so its longest side is at most `maxSize`, returning a
+ * compact JPEG data URL instead of the full-resolution original.
+ */
+export const createThumbnail = async (file: Blob, maxSize: number): Promise<string> => {
+  const objectUrl = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(objectUrl);
+    const fit = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * fit));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * fit));
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return canvas.toDataURL('image/jpeg', ATLAS.JPEG_QUALITY);
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
+
+/**
+ * Turns accepted uploads into a texture set: thumbnails for the atlas, plus a larger
+ * copy of the first photo because the mosaic spreads it over the whole layout
+ */
+export const createTextureSet = async (files: File[]): Promise<TextureSet> => {
+  const [thumbnails, mosaic] = await Promise.all([
+    Promise.all(files.map(file => createThumbnail(file, ATLAS.THUMBNAIL_SIZE))),
+    createThumbnail(files[0], MOSAIC.MAX_SIZE),
+  ]);
+  return { thumbnails, mosaic };
+};
+
+// What the loaded photo sets already hold, counted against the upload caps
+export interface UploadUsage {
+  images: number;
+  bytes: number;
+}
+
+// Decoded size of a data URL's payload (plain URLs only count their own length)
+const dataUrlBytes = (url: string) => Math.floor(((url.length - url.indexOf(',') - 1) * 3) / 4);
+
+export const measureTextureSets = (sets: TextureSet[]): UploadUsage => ({
+  images: sets.reduce((count, set) => count + set.thumbnails.length, 0),
+  bytes: sets.reduce(
+    (total, set) => total + [...set.thumbnails, set.mosaic ?? ''].reduce((sum, url) => sum + dataUrlBytes(url), 0),
+    0,
+  ),
+});
+
+const limitText = () => `${ATLAS.MAX_IMAGES} images / ${Math.round(ATLAS.MAX_UPLOAD_BYTES / (1024 * 1024))} MB`;
+
+/**
+ * Picks the files that fit within the upload caps (image count and total bytes)
+ * next to what is already loaded. Returns a warning describing what was dropped, if anything.
+ */
+export const applyUploadLimits = (
+  files: File[],
+  held: UploadUsage = { images: 0, bytes: 0 },
+): { accepted: File[]; warning: string | null } => {
+  const accepted: File[] = [];
+  let totalBytes = held.bytes;
+
+  for (const file of files) {
+    if (held.images + accepted.length >= ATLAS.MAX_IMAGES) break;
+    if (totalBytes + file.size > ATLAS.MAX_UPLOAD_BYTES) break;
+    accepted.push(file);
+    totalBytes += file.size;
+  }
+
+  if (accepted.length === files.length) return { accepted, warning: null };
+
+  const loaded = held.images > 0 ? ` next to the ${held.images} already loaded` : '';
+  return {
+    accepted,
+    warning: `Only ${accepted.length} of ${files.length} images loaded${loaded} (limit: ${limitText()}).`,
+  };
+};
+
+/**
+ * Warning for a finished photo set (e.g. sent by a controller) that doesn't fit next
+ * to the loaded ones, or null when it does
+ */
+export const checkTextureSetLimits = (held: TextureSet[], textureSet: TextureSet): string | null => {
+  const usage = measureTextureSets([...held, textureSet]);
+  if (usage.images <= ATLAS.MAX_IMAGES && usage.bytes <= ATLAS.MAX_UPLOAD_BYTES) return null;
+  return `A set of ${textureSet.thumbnails.length} images was not loaded: it would go over the limit (${limitText()}).`;
+};
+
+/**
+ * Packs images into square atlas pages on a fixed grid of ATLAS.TILE_SIZE cells.
+ * Each image is center-cropped to a square so every tile has the same shape as a particle.
+ */
+export const packAtlases = (images: HTMLImageElement[]): AtlasPage[] => {
+  const perRow = Math.floor(ATLAS.PAGE_SIZE / ATLAS.TILE_SIZE);
+  const perPage = perRow * perRow;
+  const pages: AtlasPage[] = [];
+
+  for (let start = 0; start < images.length; start += perPage) {
+    const pageImages = images.slice(start, start + perPage);
+    // Shrink the last page to the rows it actually needs
+    const rows = Math.ceil(pageImages.length / perRow);
+    const cols = Math.min(pageImages.length, perRow);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = cols * ATLAS.TILE_SIZE;
+    canvas.height = rows * ATLAS.TILE_SIZE;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) break;
+
+    const tiles = pageImages.map((image, i) => {
+      const x = (i % perRow) * ATLAS.TILE_SIZE;
+      const y = Math.floor(i / perRow) * ATLAS.TILE_SIZE;
+
+      const side = Math.min(image.naturalWidth, image.naturalHeight);
+      const sx = (image.naturalWidth - side) / 2;
+      const sy = (image.naturalHeight - side) / 2;
+      ctx.drawImage(image, sx, sy, side, side, x, y, ATLAS.TILE_SIZE, ATLAS.TILE_SIZE);
+
+      // Inset by a couple of pixels so mipmapping doesn't bleed neighbours in
+      const inset = ATLAS.TILE_PADDING;
+      return {
+        u: (x + inset) / canvas.width,
+        v: 1 - (y + ATLAS.TILE_SIZE - inset) / canvas.height, // Canvas Y runs down, UV V runs up
+        width: (ATLAS.TILE_SIZE - inset * 2) / canvas.width,
+        height: (ATLAS.TILE_SIZE - inset * 2) / canvas.height,
+      };
+    });
+
+    pages.push({ canvas, tiles });
+  }
+  return pages;
+};
+
+/**
+ * Single plain white tile, used when no photo could be loaded so particles still render
+ */
+export const createBlankPage = (): AtlasPage => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 4;
+  canvas.height = 4;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  return { canvas, tiles: [{ u: 0, v: 0, width: 1, height: 1 }] };
+};
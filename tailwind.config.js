@@ -0,0 +1,9 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  // Class names are also assembled in services (e.g. gesture badge colors)
+  content: ['./index.html', './*.tsx', './components/**/*.tsx', './services/**/*.ts'],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { GestureAction } from '../types';
+import { ATTRACT_CHOREOGRAPHY, cycleEntry, getAttractCue } from '../services/attractMode';
+
+const CYCLE_MS = ATTRACT_CHOREOGRAPHY.reduce((sum, step) => sum + step.ms, 0);
+
+describe('attract choreography', () => {
+  it('starts with the first step of the first cycle', () => {
+    const { cue, nextChangeMs } = getAttractCue(0);
+    expect(cue).toEqual({ cycle: 0, actions: ATTRACT_CHOREOGRAPHY[0].actions });
+    expect(nextChangeMs).toBe(ATTRACT_CHOREOGRAPHY[0].ms);
+  });
+
+  it('reports the time left in the current step', () => {
+    const { cue, nextChangeMs } = getAttractCue(ATTRACT_CHOREOGRAPHY[0].ms + 1000);
+    expect(cue.actions).toEqual(ATTRACT_CHOREOGRAPHY[1].actions);
+    expect(nextChangeMs).toBe(ATTRACT_CHOREOGRAPHY[1].ms - 1000);
+  });
+
+  it('flows and scatters at some point in every cycle', () => {
+    const actions = ATTRACT_CHOREOGRAPHY.flatMap(step => step.actions);
+    expect(actions).toContain(GestureAction.FLOW);
+    expect(actions).toContain(GestureAction.SCATTER);
+  });
+
+  it('counts cycles and wraps around', () => {
+    expect(getAttractCue(CYCLE_MS * 2 + 10).cue).toEqual({ cycle: 2, actions: ATTRACT_CHOREOGRAPHY[0].actions });
+  });
+
+  it('picks entries per cycle starting from the current one', () => {
+    expect(cycleEntry(['a', 'b', 'c'], 1, 0)).toBe('b');
+    expect(cycleEntry(['a', 'b', 'c'], 1, 4)).toBe('c');
+    expect(cycleEntry([], 0, 3)).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { AUDIO } from '../constants';
+import { computeBandLevels, createBeatDetector } from '../services/audioAnalyzer';
+
+const SAMPLE_RATE = 48000;
+const BINS = AUDIO.FFT_SIZE / 2;
+const BIN_HZ = SAMPLE_RATE / AUDIO.FFT_SIZE;
+
+// A spectrum with full energy between two frequencies and silence elsewhere
+const spectrumWith = (lowHz: number, highHz: number) => {
+  const spectrum = new Uint8Array(BINS);
+  for (let i = Math.floor(lowHz / BIN_HZ); i <= Math.ceil(highHz / BIN_HZ); i++) spectrum[i] = 255;
+  return spectrum;
+};
+
+describe('audio band levels', () => {
+  it('is silent for a silent spectrum', () => {
+    expect(computeBandLevels(new Uint8Array(BINS), SAMPLE_RATE)).toEqual({ bass: 0, mid: 0, treble: 0 });
+  });
+
+  it('puts a low tone in the bass and a high one in the treble', () => {
+    const low = computeBandLevels(spectrumWith(60, 120), SAMPLE_RATE);
+    expect(low.bass).toBeGreaterThan(0.2);
+    expect(low.mid).toBe(0);
+    expect(low.treble).toBe(0);
+
+    const high = computeBandLevels(spectrumWith(5000, 8000), SAMPLE_RATE);
+    expect(high.treble).toBeGreaterThan(0.2);
+    expect(high.bass).toBe(0);
+  });
+
+  it('reads a full spectrum as full level in every band', () => {
+    const levels = computeBandLevels(new Uint8Array(BINS).fill(255), SAMPLE_RATE);
+    expect(levels).toEqual({ bass: 1, mid: 1, treble: 1 });
+  });
+});
+
+describe('beat detection', () => {
+  const quiet = { bass: 0.1, mid: 0.1, treble: 0.1 };
+  const kick = { bass: 0.8, mid: 0.1, treble: 0.1 };
+
+  it('flags a band jumping above its average', () => {
+    const detector = createBeatDetector();
+    for (let t = 0; t < 1000; t += 16) detector.update(quiet, t);
+    expect(detector.update(kick, 1000)).toEqual({ bass: true, mid: false, treble: false });
+  });
+
+  it('waits out the cooldown before the next beat', () => {
+    const detector = createBeatDetector();
+    expect(detector.update(kick, 0).bass).toBe(true);
+    expect(detector.update(quiet, 16).bass).toBe(false);
+    expect(detector.update(kick, 32).bass).toBe(false);
+    expect(detector.update(kick, AUDIO.BEAT_COOLDOWN_MS + 1).bass).toBe(true);
+  });
+
+  it('stops firing on a sustained loud passage', () => {
+    const detector = createBeatDetector();
+    let beats = 0;
+    for (let t = 0; t < 10000; t += 16) {
+      if (detector.update(kick, t).bass) beats++;
+    }
+    // Only until the running average catches up
+    expect(beats).toBeLessThan(5);
+  });
+
+  it('ignores quiet bands however sudden', () => {
+    const detector = createBeatDetector();
+    expect(detector.update({ bass: AUDIO.BEAT_MIN_LEVEL / 2, mid: 0, treble: 0 }, 0).bass).toBe(false);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { MEDIAPIPE } from '../constants';
+import { normalizeLandmarks } from '../services/customGestures';
+import { createHandPose } from './fixtures/handPoses';
+
+// The fixtures measure both axes in frame widths; the tracker reports y in frame heights
+const toCameraFrame = (landmarks: ReturnType<typeof createHandPose>) =>
+  landmarks.map(({ x, y, z }) => ({ x, y: y * MEDIAPIPE.CAMERA_WIDTH / MEDIAPIPE.CAMERA_HEIGHT, z }));
+
+const maxDifference = (a: number[], b: number[]) => Math.max(...a.map((value, i) => Math.abs(value - b[i])));
+
+describe('normalizeLandmarks', () => {
+  it('gives the same vector for a pose wherever, however large and however tilted it is', () => {
+    const pose = { curl: { ring: 1, pinky: 1 }, thumb: 'tucked' as const };
+    const upright = normalizeLandmarks(toCameraFrame(createHandPose(pose)), 'Right');
+    const tilted = normalizeLandmarks(toCameraFrame(createHandPose({ ...pose, roll: Math.PI / 2, size: 0.1, center: [0.3, 0.4] })), 'Right');
+    expect(maxDifference(upright, tilted)).toBeLessThan(1e-3);
+  });
+
+  it('mirrors left hands onto right ones', () => {
+    const right = normalizeLandmarks(toCameraFrame(createHandPose({ roll: 0.4 })), 'Right');
+    const left = normalizeLandmarks(toCameraFrame(createHandPose({ roll: -0.4, mirror: true })), 'Left');
+    expect(maxDifference(right, left)).toBeLessThan(1e-3);
+  });
+});
@@ -0,0 +1,232 @@
+import { HandGesture, Landmark, NormalizedLandmarkList } from '../../types';
+import { GESTURE_TRACKING } from '../../constants';
+
+/**
+ * Synthetic MediaPipe hand landmarks. A hand is built in "palm units" (wrist at the
+ * origin, 1 = wrist to middle knuckle, fingers pointing up the image) and then rotated,
+ * mirrored, scaled and placed in the frame. Finger curl folds each joint towards the
+ * palm in depth, so a curled finger's tip projects back down towards the wrist the
+ * way it does in a real camera image.
+ */
+
+type Finger = 'index' | 'middle' | 'ring' | 'pinky';
+type Vec3 = [number, number, number];
+
+// Knuckle positions and segment lengths (MCP→PIP, PIP→DIP, DIP→TIP) in palm units
+const FINGERS: Record<Finger, { mcp: Vec3; segments: Vec3 }> = {
+  index: { mcp: [0.3, -0.9, 0], segments: [0.45, 0.27, 0.22] },
+  middle: { mcp: [0, -1, 0], segments: [0.5, 0.3, 0.24] },
+  ring: { mcp: [-0.25, -0.95, 0], segments: [0.46, 0.28, 0.22] },
+  pinky: { mcp: [-0.45, -0.82, 0], segments: [0.36, 0.22, 0.2] },
+};
+const FINGER_ORDER: Finger[] = ['index', 'middle', 'ring', 'pinky'];
+// How far each joint bends (radians) at full curl
+const JOINT_BEND: Vec3 = [1.4, 1.75, 1.2];
+const THUMB_CMC: Vec3 = [0.25, -0.2, 0];
+
+export type ThumbPose = 'out' | 'tucked' | 'touching-index';
+
+export interface HandPoseOptions {
+  curl?: Partial<Record<Finger, number>>;  // 0 straight - 1 fully curled (default 0)
+  thumb?: ThumbPose;
+  touchGap?: number;     // Thumb–index tip gap for 'touching-index', in frame widths
+  roll?: number;         // Radians, counter-clockwise in the image
+  mirror?: boolean;      // The other hand
+  size?: number;         // Wrist to middle knuckle in frame widths
+  center?: [number, number];  // Wrist position in the frame
+  noise?: number;        // Uniform jitter per coordinate, in frame widths
+  seed?: number;
+}
+
+// Small deterministic PRNG so noisy fixtures are the same on every run
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const add = (a: Vec3, b: Vec3, scale = 1): Vec3 => [a[0] + b[0] * scale, a[1] + b[1] * scale, a[2] + b[2] * scale];
+const lerp = (a: Vec3, b: Vec3, t: number): Vec3 => [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+
+// Walks a finger from its knuckle, bending every joint further into the palm
+const buildFinger = (finger: Finger, curl: number): Vec3[] => {
+  const { mcp, segments } = FINGERS[finger];
+  const length = Math.hypot(mcp[0], mcp[1]);
+  const up: Vec3 = [mcp[0] / length, mcp[1] / length, 0];
+  const points: Vec3[] = [mcp];
+  let angle = 0;
+  segments.forEach((segment, i) => {
+    angle += JOINT_BEND[i] * curl;
+    const direction: Vec3 = [up[0] * Math.cos(angle), up[1] * Math.cos(angle), -Math.sin(angle)];
+    points.push(add(points[points.length - 1], direction, segment));
+  });
+  return points;
+};
+
+const buildThumb = (pose: ThumbPose, indexTip: Vec3, gap: number): Vec3[] => {
+  let tip: Vec3;
+  if (pose === 'out') tip = [0.9, -0.85, 0];
+  else if (pose === 'tucked') tip = [-0.15, -0.45, -0.2];
+  else tip = add(indexTip, [gap, 0, 0]);
+  // MCP and IP along the way, bowed slightly outwards
+  const mcp = add(lerp(THUMB_CMC, tip, 0.4), [0.12, 0, 0]);
+  const ip = add(lerp(THUMB_CMC, tip, 0.72), [0.08, 0, 0]);
+  return [THUMB_CMC, mcp, ip, tip];
+};
+
+export const createHandPose = (options: HandPoseOptions = {}): NormalizedLandmarkList => {
+  const {
+    curl = {},
+    thumb = 'out',
+    roll = 0,
+    mirror = false,
+    size = 0.15,
+    center = [0.5, 0.75],
+    noise = 0,
+    seed = 1,
+  } = options;
+
+  const fingers = Object.fromEntries(FINGER_ORDER.map(finger => [finger, buildFinger(finger, curl[finger] ?? 0)])) as Record<Finger, Vec3[]>;
+  // The touch gap is given in frame widths, the hand is built in palm units
+  const thumbPoints = buildThumb(thumb, fingers.index[3], (options.touchGap ?? 0.01) / size);
+  const local: Vec3[] = [[0, 0, 0], ...thumbPoints, ...FINGER_ORDER.flatMap(finger => fingers[finger])];
+
+  const random = createRandom(seed);
+  const cos = Math.cos(roll);
+  const sin = Math.sin(roll);
+  return local.map(([x, y, z]): Landmark => {
+    const mx = mirror ? -x : x;
+    // Counter-clockwise on screen, where y runs down
+    const rx = mx * cos + y * sin;
+    const ry = -mx * sin + y * cos;
+    return {
+      x: center[0] + rx * size + (random() - 0.5) * 2 * noise,
+      y: center[1] + ry * size + (random() - 0.5) * 2 * noise,
+      z: z * size,
+    };
+  });
+};
+
+// --- Degradations seen in real tracking ---
+
+/**
+ * A finger hidden behind the hand: MediaPipe still reports it, but its outer joints
+ * collapse onto the PIP joint
+ */
+export const occludeFinger = (landmarks: NormalizedLandmarkList, finger: Finger): NormalizedLandmarkList => {
+  const mcpIndex = 5 + FINGER_ORDER.indexOf(finger) * 4;
+  const pip = landmarks[mcpIndex + 1];
+  return landmarks.map((point, i) => (i === mcpIndex + 2 || i === mcpIndex + 3 ? { ...pip } : point));
+};
+
+/**
+ * A hand partly out of the frame: coordinates past the edge are pinned to it
+ */
+export const clipToFrame = (landmarks: NormalizedLandmarkList): NormalizedLandmarkList =>
+  landmarks.map(point => ({ ...point, x: Math.min(Math.max(point.x, 0), 1), y: Math.min(Math.max(point.y, 0), 1) }));
+
+// --- Fixture library ---
+
+export interface PoseFixture {
+  name: string;
+  expected: HandGesture;     // What the pose is meant to be
+  landmarks: NormalizedLandmarkList;
+  tags: string[];            // clean, mirrored, rotated, scaled, noisy, occluded, threshold, recorded
+}
+
+// Intended gestures and the pose that performs them
+const BASE_POSES: { name: string; expected: HandGesture; options: HandPoseOptions }[] = [
+  { name: 'fist', expected: HandGesture.FIST, options: { curl: { index: 1, middle: 1, ring: 1, pinky: 1 }, thumb: 'tucked' } },
+  { name: 'open palm', expected: HandGesture.OPEN_PALM, options: { thumb: 'out' } },
+  { name: 'ok sign', expected: HandGesture.OK_SIGN, options: { curl: { index: 0.5 }, thumb: 'touching-index' } },
+  { name: 'pointing', expected: HandGesture.NONE, options: { curl: { middle: 1, ring: 1, pinky: 1 }, thumb: 'tucked' } },
+  { name: 'peace', expected: HandGesture.NONE, options: { curl: { ring: 1, pinky: 1 }, thumb: 'tucked' } },
+  { name: 'rock', expected: HandGesture.NONE, options: { curl: { middle: 1, ring: 1 }, thumb: 'tucked' } },
+  { name: 'three', expected: HandGesture.NONE, options: { curl: { pinky: 1 }, thumb: 'tucked' } },
+];
+
+const ROLLS = [-Math.PI / 2, -Math.PI / 4, Math.PI / 6, Math.PI / 3, Math.PI];
+const SIZES = [0.06, 0.1, 0.25];
+
+const variants = (): PoseFixture[] => BASE_POSES.flatMap(({ name, expected, options }) => {
+  const make = (suffix: string, tags: string[], extra: HandPoseOptions): PoseFixture => ({
+    name: `${name} (${suffix})`,
+    expected,
+    landmarks: createHandPose({ ...options, ...extra }),
+    tags,
+  });
+  return [
+    make('upright', ['clean'], {}),
+    make('mirrored', ['mirrored'], { mirror: true }),
+    ...ROLLS.map(roll => make(`roll ${Math.round(roll * 180 / Math.PI)}°`, ['rotated'], { roll })),
+    ...ROLLS.map(roll => make(`mirrored, roll ${Math.round(roll * 180 / Math.PI)}°`, ['rotated', 'mirrored'], { roll, mirror: true })),
+    ...SIZES.map(size => make(`size ${size}`, ['scaled'], { size })),
+    ...[1, 2, 3].map(seed => make(`noise #${seed}`, ['noisy'], { noise: 0.004, seed })),
+  ];
+});
+
+const occluded = (): PoseFixture[] => [
+  {
+    name: 'open palm, ring finger hidden',
+    expected: HandGesture.OPEN_PALM,
+    landmarks: occludeFinger(createHandPose({ thumb: 'out' }), 'ring'),
+    tags: ['occluded'],
+  },
+  {
+    name: 'ok sign, pinky hidden',
+    expected: HandGesture.OK_SIGN,
+    landmarks: occludeFinger(createHandPose({ curl: { index: 0.5 }, thumb: 'touching-index' }), 'pinky'),
+    tags: ['occluded'],
+  },
+  {
+    name: 'fist, index hidden',
+    expected: HandGesture.FIST,
+    landmarks: occludeFinger(createHandPose({ curl: { index: 1, middle: 1, ring: 1, pinky: 1 }, thumb: 'tucked' }), 'index'),
+    tags: ['occluded'],
+  },
+  {
+    name: 'open palm, fingertips above the frame',
+    expected: HandGesture.OPEN_PALM,
+    landmarks: clipToFrame(createHandPose({ thumb: 'out', size: 0.3, center: [0.5, 0.5] })),
+    tags: ['occluded'],
+  },
+  {
+    name: 'fist, partly below the frame',
+    expected: HandGesture.FIST,
+    landmarks: clipToFrame(createHandPose({ curl: { index: 1, middle: 1, ring: 1, pinky: 1 }, thumb: 'tucked', center: [0.5, 1.05] })),
+    tags: ['occluded'],
+  },
+];
+
+// Just inside / just outside the recognizer's thresholds; expected follows the thresholds
+const thresholds = (): PoseFixture[] => {
+  const ok = GESTURE_TRACKING.OK_DISTANCE;
+  return [
+    { name: 'ok sign, tips 90% of OK_DISTANCE apart', expected: HandGesture.OK_SIGN, gap: ok * 0.9 },
+    { name: 'ok sign, tips 60% of OK_DISTANCE apart', expected: HandGesture.OK_SIGN, gap: ok * 0.6 },
+    { name: 'loose ok, tips 120% of OK_DISTANCE apart', expected: HandGesture.NONE, gap: ok * 1.2 },
+    { name: 'loose ok, tips 200% of OK_DISTANCE apart', expected: HandGesture.NONE, gap: ok * 2 },
+  ].map(({ name, expected, gap }) => ({
+    name,
+    expected,
+    landmarks: createHandPose({ curl: { index: 0.5 }, thumb: 'touching-index', touchGap: gap }),
+    tags: ['threshold'],
+  })).concat([
+    // A finger counts as extended while its tip is further from the wrist than its PIP joint
+    {
+      name: 'open palm, fingers slightly bent',
+      expected: HandGesture.OPEN_PALM,
+      landmarks: createHandPose({ curl: { index: 0.3, middle: 0.3, ring: 0.3, pinky: 0.3 }, thumb: 'out' }),
+      tags: ['threshold'],
+    },
+    {
+      name: 'fist, fingers loosely curled',
+      expected: HandGesture.FIST,
+      landmarks: createHandPose({ curl: { index: 0.7, middle: 0.7, ring: 0.7, pinky: 0.7 }, thumb: 'tucked' }),
+      tags: ['threshold'],
+    },
+  ]);
+};
+
+export const SYNTHETIC_FIXTURES: PoseFixture[] = [...variants(), ...occluded(), ...thresholds()];
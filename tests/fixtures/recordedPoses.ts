@@ -0,0 +1,35 @@
+import fs from 'fs';
+import path from 'path';
+import { HandGesture } from '../../types';
+import { parseSession } from '../../services/sessionRecording';
+import { PoseFixture } from './handPoses';
+
+const RECORDED_DIR = path.join(__dirname, 'recorded');
+// Consecutive camera frames are near-identical, so only every few are kept
+const FRAME_STEP = 5;
+
+/**
+ * Landmark sessions saved with the app's Session Recorder, labeled by file name:
+ * `OPEN_PALM.booth-lighting.json` holds one person showing an open palm throughout.
+ * The first hand of every FRAME_STEP-th frame becomes a fixture.
+ */
+export const loadRecordedFixtures = (): PoseFixture[] => {
+  if (!fs.existsSync(RECORDED_DIR)) return [];
+  const gestures = Object.values(HandGesture) as string[];
+
+  return fs.readdirSync(RECORDED_DIR)
+    .filter(file => file.endsWith('.json'))
+    .flatMap(file => {
+      const label = file.split('.')[0];
+      if (!gestures.includes(label)) throw new Error(`${file}: name must start with one of ${gestures.join(', ')}`);
+      const session = parseSession(fs.readFileSync(path.join(RECORDED_DIR, file), 'utf8'));
+      return session.frames
+        .filter((frame, i) => i % FRAME_STEP === 0 && frame.multiHandLandmarks.length > 0)
+        .map(frame => ({
+          name: `${file} @ ${frame.t}ms`,
+          expected: label as HandGesture,
+          landmarks: frame.multiHandLandmarks[0],
+          tags: ['recorded'],
+        }));
+    });
+};
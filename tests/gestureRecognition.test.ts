@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { HandGesture } from '../types';
+import { GESTURE_TRACKING } from '../constants';
+import {
+  analyzeGesture,
+  computeHandState,
+  computeTwoHandState,
+  diagnoseHand,
+  estimateHandProximity,
+  keepPrimaryHandFirst,
+  scoreGestures,
+} from '../services/gestureRecognition';
+import { SYNTHETIC_FIXTURES, createHandPose } from './fixtures/handPoses';
+
+// Occluded poses are expected to be misread sometimes; the report tracks those
+const reliable = SYNTHETIC_FIXTURES.filter(fixture => !fixture.tags.includes('occluded'));
+
+const strongest = (scores: Record<HandGesture, number>) =>
+  (Object.keys(scores) as HandGesture[]).reduce((best, gesture) => (scores[gesture] > scores[best] ? gesture : best));
+
+describe('analyzeGesture', () => {
+  it.each(reliable.map(fixture => [fixture.name, fixture] as const))('%s', (_, fixture) => {
+    expect(analyzeGesture(fixture.landmarks)).toBe(fixture.expected);
+  });
+
+  it('returns NONE without landmarks', () => {
+    expect(analyzeGesture([])).toBe(HandGesture.NONE);
+  });
+});
+
+describe('scoreGestures', () => {
+  it.each(reliable.map(fixture => [fixture.name, fixture] as const))('%s', (_, fixture) => {
+    const scores = scoreGestures(fixture.landmarks);
+    expect(strongest(scores)).toBe(fixture.expected);
+    Object.values(scores).forEach(score => {
+      expect(score).toBeGreaterThanOrEqual(0);
+      expect(score).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('is fully NONE without landmarks', () => {
+    expect(scoreGestures([])[HandGesture.NONE]).toBe(1);
+  });
+
+  it('fades the OK sign out as the fingertips part', () => {
+    const okScore = (gap: number) =>
+      scoreGestures(createHandPose({ curl: { index: 0.5 }, thumb: 'touching-index', touchGap: gap }))[HandGesture.OK_SIGN];
+    const gaps = [0.01, 0.04, 0.05, 0.06, 0.08];
+    const scores = gaps.map(okScore);
+    scores.slice(1).forEach((score, i) => expect(score).toBeLessThanOrEqual(scores[i]));
+    expect(okScore(GESTURE_TRACKING.OK_DISTANCE)).toBeCloseTo(0.5);
+  });
+});
+
+describe('diagnoseHand', () => {
+  it('explains a fist as four curled fingers', () => {
+    const diagnostics = diagnoseHand(createHandPose({ curl: { index: 1, middle: 1, ring: 1, pinky: 1 }, thumb: 'tucked' }));
+    expect(diagnostics.fingers.map(f => f.extended)).toEqual([false, false, false, false]);
+    expect(diagnostics.okDistance).toBe(GESTURE_TRACKING.OK_DISTANCE);
+  });
+
+  it('measures the thumb–index gap in frame widths', () => {
+    const diagnostics = diagnoseHand(createHandPose({ curl: { index: 0.5 }, thumb: 'touching-index', touchGap: 0.02 }));
+    expect(diagnostics.thumbIndexDistance).toBeCloseTo(0.02);
+  });
+});
+
+describe('estimateHandProximity', () => {
+  it('grows with the size of the hand and stays within 0-1', () => {
+    const values = [0.05, 0.1, 0.2, 0.3, 0.5, 0.7].map(size => estimateHandProximity(createHandPose({ size })));
+    values.slice(1).forEach((value, i) => expect(value).toBeGreaterThanOrEqual(values[i]));
+    expect(values[0]).toBe(0);
+    expect(values[values.length - 1]).toBe(1);
+  });
+});
+
+describe('computeHandState', () => {
+  it('mirrors X for the selfie view', () => {
+    const state = computeHandState(createHandPose({ center: [0.2, 0.7] }));
+    expect(state.palmX).toBeGreaterThan(0.7);
+  });
+
+  it('reports roll counter-clockwise from fingers up', () => {
+    expect(computeHandState(createHandPose()).roll).toBeCloseTo(0);
+    // Mirroring X turns a counter-clockwise tilt in the camera image into a clockwise one on screen
+    expect(computeHandState(createHandPose({ roll: Math.PI / 4 })).roll).toBeCloseTo(-Math.PI / 4);
+  });
+
+  it('reads openness and pinch from the pose', () => {
+    const open = computeHandState(createHandPose());
+    const fist = computeHandState(createHandPose({ curl: { index: 1, middle: 1, ring: 1, pinky: 1 }, thumb: 'tucked' }));
+    const ok = computeHandState(createHandPose({ curl: { index: 0.5 }, thumb: 'touching-index' }));
+    expect(open.openness).toBe(1);
+    expect(fist.openness).toBe(0);
+    expect(ok.pinch).toBeGreaterThan(0.9);
+    expect(open.pinch).toBeLessThan(0.1);
+  });
+});
+
+describe('computeTwoHandState', () => {
+  it('measures spread and angle from the left hand to the right one', () => {
+    const left = computeHandState(createHandPose({ center: [0.8, 0.6] }));
+    const right = computeHandState(createHandPose({ center: [0.2, 0.6] }));
+    const state = computeTwoHandState(right, left);
+    expect(state.spread).toBeCloseTo(0.6, 1);
+    expect(state.angle).toBeCloseTo(0, 1);
+  });
+});
+
+describe('keepPrimaryHandFirst', () => {
+  it('keeps the primary hand first whatever order the hands arrive in', () => {
+    const left = { label: 'Left' as const };
+    const right = { label: 'Right' as const };
+    expect(keepPrimaryHandFirst([left, right], 'Right')).toEqual([right, left]);
+    expect(keepPrimaryHandFirst([right, left], 'Right')).toEqual([right, left]);
+    // Without the primary hand in view the order is left alone
+    expect(keepPrimaryHandFirst([left], 'Right')).toEqual([left]);
+    expect(keepPrimaryHandFirst([left, right], null)).toEqual([left, right]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { HandGesture, NormalizedLandmarkList } from '../types';
+import { GESTURE_TRACKING } from '../constants';
+import { createGestureTracker } from '../services/gestureTracker';
+import { createHandPose } from './fixtures/handPoses';
+
+const FRAME_MS = 33;
+const FIST = createHandPose({ curl: { index: 1, middle: 1, ring: 1, pinky: 1 }, thumb: 'tucked' });
+const OPEN_PALM = createHandPose();
+
+// Feeds the same pose for a number of frames and returns the gesture after each one
+const feed = (tracker: ReturnType<typeof createGestureTracker>, pose: NormalizedLandmarkList | null, frames: number, start = 0) =>
+  Array.from({ length: frames }, (_, i) => tracker.update(pose, start + i * FRAME_MS).event.gesture);
+
+describe('createGestureTracker', () => {
+  it('only reports a gesture once it has persisted for the debounce frames', () => {
+    const gestures = feed(createGestureTracker(), FIST, 20);
+    expect(gestures[0]).toBe(HandGesture.NONE);
+    expect(gestures.indexOf(HandGesture.FIST)).toBeGreaterThanOrEqual(GESTURE_TRACKING.DEBOUNCE_FRAMES - 1);
+    expect(gestures[gestures.length - 1]).toBe(HandGesture.FIST);
+  });
+
+  it('ignores a single misread frame', () => {
+    const tracker = createGestureTracker();
+    feed(tracker, FIST, 20);
+    feed(tracker, OPEN_PALM, 1, 20 * FRAME_MS);
+    expect(feed(tracker, FIST, 5, 21 * FRAME_MS).every(gesture => gesture === HandGesture.FIST)).toBe(true);
+  });
+
+  it('releases the gesture when the hand leaves', () => {
+    const tracker = createGestureTracker();
+    feed(tracker, FIST, 20);
+    const gestures = feed(tracker, null, 20, 20 * FRAME_MS);
+    expect(gestures[gestures.length - 1]).toBe(HandGesture.NONE);
+  });
+
+  it('reports a custom gesture for a pose the built-in ones do not cover', () => {
+    const pointing = createHandPose({ curl: { middle: 1, ring: 1, pinky: 1 }, thumb: 'tucked' });
+    const tracker = createGestureTracker(() => ({ 'custom:point': 0.9 }));
+    const gestures = feed(tracker, pointing, 20);
+    expect(gestures[gestures.length - 1]).toBe('custom:point');
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { SCENE_CONFIG } from '../constants';
+import { fitTextCanvas } from '../services/particleLayout';
+import { DEFAULT_TEXT_SETTINGS } from '../services/presets';
+
+describe('fitTextCanvas', () => {
+  it('keeps short text at its size', () => {
+    const size = fitTextCanvas([300, 200], DEFAULT_TEXT_SETTINGS);
+    expect(size.fontSize).toBe(DEFAULT_TEXT_SETTINGS.fontSize);
+    expect(size.width).toBe(300 + SCENE_CONFIG.CANVAS_PADDING * 2);
+  });
+
+  it('shrinks a long line to the maximum width', () => {
+    const size = fitTextCanvas([20000], DEFAULT_TEXT_SETTINGS);
+    expect(size.width).toBeLessThanOrEqual(SCENE_CONFIG.MAX_CANVAS_WIDTH);
+    expect(size.fontSize).toBeLessThan(DEFAULT_TEXT_SETTINGS.fontSize);
+  });
+
+  it('shrinks a message with many lines to the maximum height', () => {
+    const size = fitTextCanvas(new Array(500).fill(400), DEFAULT_TEXT_SETTINGS);
+    expect(size.height).toBeLessThanOrEqual(SCENE_CONFIG.MAX_CANVAS_HEIGHT);
+    expect(size.width).toBeLessThanOrEqual(SCENE_CONFIG.MAX_CANVAS_WIDTH);
+    expect(size.lineHeight * 500).toBeLessThanOrEqual(SCENE_CONFIG.MAX_CANVAS_HEIGHT);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ParticleForce,
+  createParticleSimulation,
+  dragForce,
+  explosionForce,
+  repulsorForce,
+  springForce,
+  turbulenceField,
+  vortexForce,
+} from '../services/particleSimulation';
+
+const DT = 1 / 60;
+
+// Steps the simulation for a number of seconds and returns the last largest displacement
+const run = (simulation: ReturnType<typeof createParticleSimulation>, seconds: number, forces: ParticleForce[]) => {
+  let maxOffset = 0;
+  for (let t = 0; t < seconds; t += DT) maxOffset = simulation.step(DT, forces);
+  return maxOffset;
+};
+
+const single = (home: [number, number, number], direction: [number, number, number] = [0, 0, 0]) => {
+  const simulation = createParticleSimulation();
+  simulation.resize(1);
+  simulation.setParticle(0, home, direction);
+  return simulation;
+};
+
+describe('particle simulation', () => {
+  it('settles where a held explosion balances the spring', () => {
+    const simulation = single([0, 0, 0], [0.2, 0, 0]);
+    run(simulation, 10, [springForce(12), dragForce(3), explosionForce(12 * 50)]);
+    expect(simulation.state.offset[0]).toBeCloseTo(10, 2);
+  });
+
+  it('springs back home with some overshoot once the explosion stops', () => {
+    const simulation = single([0, 0, 0], [0.2, 0, 0]);
+    run(simulation, 10, [springForce(12), dragForce(3), explosionForce(12 * 50)]);
+
+    let lowest = Infinity;
+    for (let t = 0; t < 10; t += DT) {
+      simulation.step(DT, [springForce(12), dragForce(3)]);
+      lowest = Math.min(lowest, simulation.state.offset[0]);
+    }
+    expect(lowest).toBeLessThan(0);
+    expect(Math.abs(simulation.state.offset[0])).toBeLessThan(0.01);
+  });
+
+  it('settles only once everything is home and slow', () => {
+    const simulation = single([0, 0, 0], [0.2, 0, 0]);
+    run(simulation, 1, [springForce(12), dragForce(3), explosionForce(12 * 50)]);
+    simulation.step(DT, [springForce(12), dragForce(3)]);
+    expect(simulation.settle(0.001, 0.01)).toBe(false);
+
+    run(simulation, 20, [springForce(12), dragForce(3)]);
+    expect(simulation.settle(0.001, 0.01)).toBe(true);
+    expect(simulation.state.offset[0]).toBe(0);
+    expect(simulation.state.velocity[0]).toBe(0);
+  });
+
+  it('keeps the motion of surviving particles when resized', () => {
+    const simulation = single([0, 0, 0], [1, 0, 0]);
+    run(simulation, 0.5, [explosionForce(10)]);
+    const moved = simulation.state.offset[0];
+
+    simulation.resize(3);
+    expect(simulation.state.offset[0]).toBe(moved);
+    expect(simulation.state.offset[3]).toBe(0);
+    simulation.resize(1);
+    expect(simulation.state.offset[0]).toBe(moved);
+  });
+
+  it('pushes particles away from the repulsor and leaves distant ones alone', () => {
+    const simulation = createParticleSimulation();
+    simulation.resize(2);
+    simulation.setParticle(0, [1, 0, 0], [0, 0, 0]);
+    simulation.setParticle(1, [20, 0, 0], [0, 0, 0]);
+    simulation.step(DT, [repulsorForce(0, 0, 0, 5, 4)]);
+    expect(simulation.state.velocity[0]).toBeGreaterThan(0);
+    expect(simulation.state.velocity[3]).toBe(0);
+
+    simulation.step(DT, [repulsorForce(0, 0, 0, -5, 4)]);
+    expect(simulation.state.acceleration[0]).toBeLessThan(0);
+  });
+
+  it('turns counter-clockwise around the vortex for positive strength', () => {
+    const simulation = single([5, 0, 0]);
+    simulation.step(DT, [vortexForce(0, 0, 1, 10)]);
+    expect(simulation.state.acceleration[0]).toBeCloseTo(0, 6);
+    expect(simulation.state.acceleration[1]).toBeGreaterThan(0);
+  });
+
+  it('uses a divergence-free turbulence field', () => {
+    const h = 1e-3;
+    const scale = 0.08;
+    [[0, 0, 0], [3, -7, 2], [40, 12, -5]].forEach(([x, y, z]) => {
+      const divergence =
+        (turbulenceField(x + h, y, z, 1.3, scale)[0] - turbulenceField(x - h, y, z, 1.3, scale)[0]) / (2 * h) +
+        (turbulenceField(x, y + h, z, 1.3, scale)[1] - turbulenceField(x, y - h, z, 1.3, scale)[1]) / (2 * h) +
+        (turbulenceField(x, y, z + h, 1.3, scale)[2] - turbulenceField(x, y, z - h, 1.3, scale)[2]) / (2 * h);
+      expect(Math.abs(divergence)).toBeLessThan(1e-6);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ATTRACT_SETTINGS, DEFAULT_IMAGE_SHAPE_SETTINGS, DEFAULT_SCENE_SETTINGS, DEFAULT_TEXT_SETTINGS, parsePreset } from '../services/presets';
+
+const BASE = { version: 1, name: 'Lobby', text: { text: 'HELLO' } };
+const parse = (fields: Record<string, unknown>) => parsePreset(JSON.stringify({ ...BASE, ...fields }));
+
+describe('preset parsing', () => {
+  it('rejects files that are not presets', () => {
+    expect(() => parsePreset('not json')).toThrow();
+    expect(() => parsePreset('[]')).toThrow();
+    expect(() => parsePreset(JSON.stringify({ version: 1, name: 'x' }))).toThrow();
+    expect(() => parsePreset(JSON.stringify({ version: 2, name: 'x', text: { text: 'a' } }))).toThrow();
+    expect(() => parsePreset(JSON.stringify({ version: 1, name: 3, text: { text: 'a' } }))).toThrow();
+  });
+
+  it('fills a minimal preset with the defaults', () => {
+    const preset = parse({});
+    expect(preset.text).toEqual({ ...DEFAULT_TEXT_SETTINGS, text: 'HELLO' });
+    expect(preset.scene).toEqual(DEFAULT_SCENE_SETTINGS);
+    expect(preset.imageShape).toEqual(DEFAULT_IMAGE_SHAPE_SETTINGS);
+    expect(preset.attract).toEqual(DEFAULT_ATTRACT_SETTINGS);
+    expect(preset.textureSets).toEqual([{ thumbnails: [], mosaic: null }]);
+  });
+
+  it('drops malformed photo sets', () => {
+    const preset = parse({
+      textureSets: [1, null, { thumbnails: 'a' }, { thumbnails: [2] }, { thumbnails: ['data:image/png;base64,AA'] }],
+      textureSetIndex: 4,
+    });
+    expect(preset.textureSets).toEqual([{ thumbnails: ['data:image/png;base64,AA'], mosaic: null }]);
+    expect(preset.textureSetIndex).toBe(0);
+    expect(parse({ textureSets: [1] }).textureSets).toEqual([{ thumbnails: [], mosaic: null }]);
+  });
+
+  it('keeps the default for every mistyped field', () => {
+    const preset = parse({
+      text: { text: 'HI', fontSize: '40', lineHeight: null, fontFamily: 7 },
+      scene: {
+        particleColor: 'red',
+        physics: { damping: 'high', drag: 5 },
+        camera: 'far',
+        render: { material: 'chrome', fill: 'solid', bloom: 'yes', gradientColor: 12 },
+      },
+      textureMode: 'tiles',
+      imageShape: { mode: 'edges', threshold: '9' },
+      attract: { enabled: 1, idleSeconds: 45, messages: ['A', 2, 'B'] },
+      textureSetIndex: 'first',
+    });
+    expect(preset.text).toEqual({ ...DEFAULT_TEXT_SETTINGS, text: 'HI' });
+    expect(preset.scene.particleColor).toBe(DEFAULT_SCENE_SETTINGS.particleColor);
+    expect(preset.scene.physics).toEqual({ ...DEFAULT_SCENE_SETTINGS.physics, drag: 5 });
+    expect(preset.scene.camera).toEqual(DEFAULT_SCENE_SETTINGS.camera);
+    expect(preset.scene.render).toEqual({ ...DEFAULT_SCENE_SETTINGS.render, fill: 'solid' });
+    expect(preset.textureMode).toBe('random');
+    expect(preset.imageShape).toEqual(DEFAULT_IMAGE_SHAPE_SETTINGS);
+    expect(preset.attract).toEqual({ ...DEFAULT_ATTRACT_SETTINGS, idleSeconds: 45, messages: ['A', 'B'] });
+    expect(preset.textureSetIndex).toBe(0);
+  });
+
+  it('clamps numbers to the ranges of the controls', () => {
+    const preset = parse({
+      text: { text: 'HI', fontSize: 100000, lineHeight: 0, fontFamily: 'Comic Sans', fontWeight: '100' },
+      scene: {
+        physics: { damping: 1.5, drag: -3, gravity: 1e9 },
+        camera: { minZ: 30, maxZ: 10, defaultZ: 500 },
+      },
+      imageShape: { gap: 0, threshold: 999 },
+    });
+    expect(preset.text).toEqual({ ...DEFAULT_TEXT_SETTINGS, text: 'HI', fontSize: 240, lineHeight: 0.8 });
+    expect(preset.scene.physics).toEqual({ ...DEFAULT_SCENE_SETTINGS.physics, damping: 0.999, drag: 0, gravity: 100 });
+    expect(preset.scene.camera).toEqual({ minZ: 30, maxZ: 30, defaultZ: 30 });
+    expect(preset.imageShape).toEqual({ ...DEFAULT_IMAGE_SHAPE_SETTINGS, gap: 1, threshold: 255 });
+  });
+
+  it('ignores unknown bindings and fields', () => {
+    const preset = parse({ bindings: [{ gesture: 'FIST', action: 'EXPLODE' }, 'x'], extra: { a: 1 } });
+    expect(preset.bindings).toEqual([]);
+    expect(preset).not.toHaveProperty('extra');
+  });
+
+  it('keeps only bindings a known gesture can drive', () => {
+    const custom = { id: 'custom:wave', name: 'Wave', samples: [new Array(63).fill(0)] };
+    const preset = parse({
+      customGestures: [custom],
+      bindings: [
+        { gesture: 'FIST', action: 'ZOOM_OUT' },
+        { gesture: 'THUMBS_UP', action: 'ZOOM_IN' },
+        { gesture: 'SWIPE_LEFT', action: 'FLOW' },
+        { gesture: 'SWIPE_LEFT', action: 'NEXT_SHAPE' },
+        { gesture: 'custom:wave', action: 'SNAPSHOT' },
+      ],
+    });
+    expect(preset.bindings).toEqual([
+      { gesture: 'FIST', action: 'ZOOM_OUT' },
+      { gesture: 'SWIPE_LEFT', action: 'NEXT_SHAPE' },
+      { gesture: 'custom:wave', action: 'SNAPSHOT' },
+    ]);
+  });
+});
+
+describe('preset audio settings', () => {
+  it('keeps only known bands and clamps the levels', () => {
+    const { audio } = parse({
+      scene: {
+        audio: {
+          routes: { flow: { band: 'sub', amount: 0.5 }, scatter: { band: 'bass', amount: 7 }, scale: 'loud' },
+          sensitivity: 'max',
+          musicVolume: -1,
+          cueVolume: 3,
+        },
+      },
+    }).scene;
+    expect(audio.routes.flow).toEqual({ band: DEFAULT_SCENE_SETTINGS.audio.routes.flow.band, amount: 0.5 });
+    expect(audio.routes.scatter).toEqual({ band: 'bass', amount: 1 });
+    expect(audio.routes.scale).toEqual(DEFAULT_SCENE_SETTINGS.audio.routes.scale);
+    expect(audio.sensitivity).toBe(DEFAULT_SCENE_SETTINGS.audio.sensitivity);
+    expect(audio.musicVolume).toBe(0);
+    expect(audio.cueVolume).toBe(1);
+  });
+});
@@ -0,0 +1,57 @@
+import { HandGesture, NormalizedLandmarkList } from '../types';
+import { PoseFixture } from './fixtures/handPoses';
+
+export interface GestureMetrics {
+  gesture: HandGesture;
+  precision: number;   // Of the frames recognized as this gesture, how many were meant as it
+  recall: number;      // Of the frames meant as this gesture, how many were recognized
+  support: number;     // Fixtures meant as this gesture
+}
+
+export interface RecognitionReport {
+  accuracy: number;
+  gestures: GestureMetrics[];
+  misses: { name: string; expected: HandGesture; actual: HandGesture }[];
+}
+
+/**
+ * Runs a recognizer over fixtures and scores it per gesture. A gesture that never
+ * occurs and is never predicted counts as perfect rather than undefined.
+ */
+export const evaluateRecognizer = (
+  fixtures: PoseFixture[],
+  recognize: (landmarks: NormalizedLandmarkList) => HandGesture,
+): RecognitionReport => {
+  const results = fixtures.map(fixture => ({ fixture, actual: recognize(fixture.landmarks) }));
+
+  const gestures = (Object.values(HandGesture) as HandGesture[]).map(gesture => {
+    const truePositives = results.filter(r => r.actual === gesture && r.fixture.expected === gesture).length;
+    const predicted = results.filter(r => r.actual === gesture).length;
+    const support = results.filter(r => r.fixture.expected === gesture).length;
+    return {
+      gesture,
+      precision: predicted === 0 ? 1 : truePositives / predicted,
+      recall: support === 0 ? 1 : truePositives / support,
+      support,
+    };
+  });
+
+  const misses = results
+    .filter(r => r.actual !== r.fixture.expected)
+    .map(r => ({ name: r.fixture.name, expected: r.fixture.expected, actual: r.actual }));
+
+  return {
+    accuracy: results.length === 0 ? 1 : (results.length - misses.length) / results.length,
+    gestures,
+    misses,
+  };
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7);
+
+export const formatReport = (title: string, report: RecognitionReport) => [
+  `${title}: accuracy ${percent(report.accuracy).trim()}`,
+  '  gesture      precision  recall  support',
+  ...report.gestures.map(g => `  ${g.gesture.padEnd(12)} ${percent(g.precision)}  ${percent(g.recall)}  ${String(g.support).padStart(7)}`),
+  ...report.misses.map(m => `  ✗ ${m.name}: expected ${m.expected}, got ${m.actual}`),
+].join('\n');
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { SYNC } from '../constants';
+import { parseSyncMessage, readSyncParams } from '../services/syncChannel';
+import { DEFAULT_TEXT_SETTINGS } from '../services/presets';
+import { HandGesture, TrackedHand } from '../types';
+import { createHandPose } from './fixtures/handPoses';
+
+const THUMBNAIL = 'data:image/jpeg;base64,AAAA';
+
+const HAND: TrackedHand = {
+  label: 'Right',
+  gesture: HandGesture.OPEN_PALM,
+  gestureDuration: 120,
+  state: { palmX: 0.5, palmY: 0.6, proximity: 0.3, roll: 0, openness: 1, pinch: 0, pointer: { x: 0.5, y: 0.4, z: 0 } },
+  motion: { swipe: null, pinchDrag: null, stir: { direction: 'CW', strength: 0.5 } },
+  landmarks: createHandPose(),
+};
+
+const handsMessage = (hands: unknown[]) => parseSyncMessage(JSON.stringify({ type: 'hands', hands }));
+
+describe('sync params', () => {
+  it('stays off without ?sync', () => {
+    expect(readSyncParams('', 'display.local')).toEqual({
+      enabled: false,
+      url: `ws://display.local:${SYNC.PORT}`,
+      room: SYNC.DEFAULT_ROOM,
+      broadcast: false,
+    });
+  });
+
+  it('reads the relay, room and broadcast flag', () => {
+    expect(readSyncParams('?sync=ws://10.0.0.5:9000&room=lobby&broadcast', 'localhost')).toEqual({
+      enabled: true,
+      url: 'ws://10.0.0.5:9000',
+      room: 'lobby',
+      broadcast: true,
+    });
+  });
+
+  it('falls back to the default relay for a bare or non-websocket ?sync', () => {
+    expect(readSyncParams('?sync', '192.168.1.20').url).toBe(`ws://192.168.1.20:${SYNC.PORT}`);
+    expect(readSyncParams('?sync=http://example.com', '192.168.1.20').url).toBe(`ws://192.168.1.20:${SYNC.PORT}`);
+  });
+});
+
+describe('sync messages', () => {
+  it('decodes known messages', () => {
+    const text = { type: 'text', text: DEFAULT_TEXT_SETTINGS };
+    expect(parseSyncMessage(JSON.stringify(text))).toEqual(text);
+    expect(parseSyncMessage(JSON.stringify({ type: 'peers', count: 3 }))).toEqual({ type: 'peers', count: 3 });
+    expect(parseSyncMessage(JSON.stringify({ type: 'textures', textureSet: { thumbnails: [THUMBNAIL] } })))
+      .toEqual({ type: 'textures', textureSet: { thumbnails: [THUMBNAIL], mosaic: null } });
+    expect(handsMessage([HAND])).toEqual({ type: 'hands', hands: [HAND] });
+    expect(handsMessage([])).toEqual({ type: 'hands', hands: [] });
+  });
+
+  it('drops hands missing what the scene reads', () => {
+    expect(handsMessage([{}])).toBeNull();
+    expect(handsMessage([HAND, { ...HAND, label: 'Middle' }])).toBeNull();
+    expect(handsMessage([{ ...HAND, state: { ...HAND.state, palmX: 'left' } }])).toBeNull();
+    expect(handsMessage([{ ...HAND, state: { ...HAND.state, pointer: null } }])).toBeNull();
+    expect(handsMessage([{ ...HAND, landmarks: HAND.landmarks.slice(1) }])).toBeNull();
+    expect(handsMessage([{ ...HAND, landmarks: HAND.landmarks.map(({ x, y }) => ({ x, y })) }])).toBeNull();
+    expect(handsMessage([{ ...HAND, gestureDuration: undefined }])).toBeNull();
+  });
+
+  it('clears malformed motion instead of dropping the hand', () => {
+    const message = handsMessage([{ ...HAND, motion: { swipe: 'SPIN', stir: { direction: 'UP', strength: 1 } } }]);
+    expect(message).toEqual({ type: 'hands', hands: [{ ...HAND, motion: { swipe: null, pinchDrag: null, stir: null } }] });
+  });
+
+  it('only accepts photos as image data URLs', () => {
+    const textures = (textureSet: unknown) => parseSyncMessage(JSON.stringify({ type: 'textures', textureSet }));
+    expect(textures({ thumbnails: ['a'] })).toBeNull();
+    expect(textures({ thumbnails: [THUMBNAIL, 3] })).toBeNull();
+    expect(textures({ thumbnails: ['https://example.com/a.jpg'] })).toBeNull();
+    expect(textures({ thumbnails: [THUMBNAIL], mosaic: 'javascript:alert(1)' })).toBeNull();
+    expect(textures({ thumbnails: [THUMBNAIL], mosaic: THUMBNAIL })).toEqual({ type: 'textures', textureSet: { thumbnails: [THUMBNAIL], mosaic: THUMBNAIL } });
+  });
+
+  it('fills in and clamps text settings', () => {
+    const text = (settings: unknown) => parseSyncMessage(JSON.stringify({ type: 'text', text: settings }));
+    expect(text({ text: 'HI' })).toEqual({ type: 'text', text: { ...DEFAULT_TEXT_SETTINGS, text: 'HI' } });
+    expect(text({ text: 'HI', fontSize: '9000', lineHeight: null, fontFamily: 'x"; y' }))
+      .toEqual({ type: 'text', text: { ...DEFAULT_TEXT_SETTINGS, text: 'HI' } });
+    expect(text({ text: 'HI', fontSize: 1e6, lineHeight: 0 }))
+      .toEqual({ type: 'text', text: { ...DEFAULT_TEXT_SETTINGS, text: 'HI', fontSize: 240, lineHeight: 0.8 } });
+    expect(text({ text: 7 })).toBeNull();
+  });
+
+  it('fills in a partial preset', () => {
+    const message = parseSyncMessage(JSON.stringify({ type: 'preset', preset: { version: 1, name: 'Lobby', text: { text: 'HELLO' } } }));
+    expect(message?.type).toBe('preset');
+    if (message?.type === 'preset') expect(message.preset.text).toEqual({ ...DEFAULT_TEXT_SETTINGS, text: 'HELLO' });
+  });
+
+  it('drops malformed and unknown messages', () => {
+    expect(parseSyncMessage('not json')).toBeNull();
+    expect(parseSyncMessage(JSON.stringify({ type: 'hands', hands: 'none' }))).toBeNull();
+    expect(parseSyncMessage(JSON.stringify({ type: 'text', text: { size: 3 } }))).toBeNull();
+    expect(parseSyncMessage(JSON.stringify({ type: 'preset', preset: { name: 'Lobby' } }))).toBeNull();
+    expect(parseSyncMessage(JSON.stringify({ type: 'future-feature' }))).toBeNull();
+  });
+});
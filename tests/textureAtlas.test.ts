@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { ATLAS } from '../constants';
+import { applyUploadLimits, checkTextureSetLimits, measureTextureSets } from '../services/textureAtlas';
+
+const photo = (bytes: number) => new File([new Uint8Array(bytes)], 'photo.jpg', { type: 'image/jpeg' });
+const thumbnail = 'data:image/jpeg;base64,AAAA';  // 3 bytes
+
+describe('upload limits', () => {
+  it('accepts everything under the caps', () => {
+    const files = [photo(10), photo(20)];
+    expect(applyUploadLimits(files)).toEqual({ accepted: files, warning: null });
+  });
+
+  it('counts the images already loaded', () => {
+    const files = [photo(10), photo(10), photo(10)];
+    const { accepted, warning } = applyUploadLimits(files, { images: ATLAS.MAX_IMAGES - 2, bytes: 0 });
+    expect(accepted).toHaveLength(2);
+    expect(warning).toContain('already loaded');
+  });
+
+  it('counts the bytes already loaded', () => {
+    const { accepted } = applyUploadLimits([photo(10)], { images: 1, bytes: ATLAS.MAX_UPLOAD_BYTES - 5 });
+    expect(accepted).toEqual([]);
+  });
+
+  it('measures loaded sets by their decoded data', () => {
+    expect(measureTextureSets([{ thumbnails: [thumbnail, thumbnail], mosaic: thumbnail }, { thumbnails: [], mosaic: null }]))
+      .toEqual({ images: 2, bytes: 9 });
+  });
+
+  it('refuses a finished set that would go over', () => {
+    const full = { thumbnails: new Array(ATLAS.MAX_IMAGES).fill(thumbnail), mosaic: null };
+    expect(checkTextureSetLimits([], { thumbnails: [thumbnail], mosaic: null })).toBeNull();
+    expect(checkTextureSetLimits([full], { thumbnails: [thumbnail], mosaic: null })).toContain('not loaded');
+  });
+});
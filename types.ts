@@ -6,6 +6,296 @@ export enum HandGesture {
   OK_SIGN = 'OK_SIGN',
 }
 
+// Motion gestures, recognized from a short history of hand positions
+export enum MotionGesture {
+  SWIPE_LEFT = 'SWIPE_LEFT',
+  SWIPE_RIGHT = 'SWIPE_RIGHT',
+  SWIPE_UP = 'SWIPE_UP',
+  SWIPE_DOWN = 'SWIPE_DOWN',
+  PINCH_DRAG = 'PINCH_DRAG',
+  STIR = 'STIR',
+}
+
+// Motion layer output for one frame of one hand
+export interface MotionState {
+  swipe: MotionGesture | null;                    // Set only on the frame a swipe is recognized
+  pinchDrag: { dx: number; dy: number } | null;   // Fingertip movement since last frame while pinching
+  stir: { direction: 'CW' | 'CCW'; strength: number } | null;  // Ongoing circular motion, strength 0-1
+}
+
+// A HandGesture value or the id of a trained custom gesture
+export type GestureId = string;
+
+// A user-trained pose, recognized by nearest neighbors over its samples
+export interface CustomGesture {
+  id: GestureId;
+  name: string;
+  samples: number[][];  // Normalized landmark vectors (see normalizeLandmarks)
+}
+
+// What a gesture can be bound to. Continuous actions run while the gesture is held,
+// trigger actions fire once when it starts (or when a swipe is recognized) and
+// hold actions fire once it has been held for CAPTURE.HOLD_MS.
+export enum GestureAction {
+  ZOOM_IN = 'ZOOM_IN',
+  ZOOM_OUT = 'ZOOM_OUT',
+  FLOW = 'FLOW',
+  SCATTER = 'SCATTER',
+  SCALE = 'SCALE',
+  ROTATE = 'ROTATE',
+  NEXT_SHAPE = 'NEXT_SHAPE',
+  PREV_SHAPE = 'PREV_SHAPE',
+  NEXT_TEXTURES = 'NEXT_TEXTURES',
+  PREV_TEXTURES = 'PREV_TEXTURES',
+  RECORD_CLIP = 'RECORD_CLIP',
+  SNAPSHOT = 'SNAPSHOT',
+}
+
+// One row of the binding table. `gesture` is a GestureId or MotionGesture value.
+export interface GestureBinding {
+  gesture: string;
+  action: GestureAction;
+}
+
+// Continuous hand tracking data, in the mirrored (selfie) view the user sees.
+// Positions are normalized to the camera frame: x 0 = left, y 0 = top.
+export interface HandState {
+  palmX: number;
+  palmY: number;
+  proximity: number;  // 0 far - 1 very close (see estimateHandProximity)
+  roll: number;       // Radians, 0 = fingers up, positive = tilted counter-clockwise
+  openness: number;   // 0 fist - 1 all fingers extended
+  pinch: number;      // 0 thumb and index apart - 1 touching
+  pointer: { x: number; y: number; z: number };  // Index fingertip
+}
+
+// The measurements behind the gesture rules for one frame (camera debug overlay)
+export interface HandDiagnostics {
+  fingers: {
+    finger: 'INDEX' | 'MIDDLE' | 'RING' | 'PINKY';
+    extended: boolean;   // What the rules see (isFingerExtended)
+    extension: number;   // 0 curled - 1 straight, what the soft scores see
+  }[];
+  thumbIndexDistance: number;  // In frame widths
+  okDistance: number;          // Threshold the distance is compared against
+  proximity: number;
+}
+
+// Which hand, from the user's point of view
+export type HandLabel = 'Left' | 'Right';
+
+// Output of the stateful gesture tracker for one hand
+export interface GestureEvent {
+  gesture: GestureId;
+  confidence: number;                          // Smoothed confidence of the reported gesture
+  startedAt: number;                           // ms timestamp the gesture became active
+  duration: number;                            // ms it has been held so far
+  confidences: Record<GestureId, number>;      // Smoothed confidence of every gesture, custom ones included
+}
+
+// One detected hand after recognition
+export interface TrackedHand {
+  label: HandLabel;
+  gesture: GestureId;
+  gestureDuration: number;  // ms the gesture has been held, e.g. for "hold for 1s" effects
+  state: HandState;
+  motion: MotionState;
+  landmarks: NormalizedLandmarkList;  // Smoothed landmarks the gesture was recognized from
+}
+
+// Relation between two tracked hands
+export interface TwoHandState {
+  spread: number;  // Distance between the palms, in frame widths
+  angle: number;   // Radians of the line from the left-most to the right-most palm, counter-clockwise
+}
+
+// What moves the camera: the discrete gesture pushes or the tracked hand itself
+export type CameraMode = 'gesture' | 'hand';
+
+// Where hand input comes from. Camera and replay go through landmark recognition,
+// pointer and keyboard produce tracked hands directly.
+export type InputSourceKind = 'camera' | 'pointer' | 'keyboard' | 'replay' | 'remote';
+
+// Runtime-editable settings for the particle text
+export interface TextSettings {
+  text: string;         // May contain line breaks
+  fontFamily: string;
+  fontWeight: string;
+  fontSize: number;     // In canvas pixels
+  lineHeight: number;   // Multiple of the font size
+}
+
+// How an image is turned into a particle layout
+export interface ImageShapeSettings {
+  mode: 'alpha' | 'luminance';  // Which channel decides if a pixel becomes a particle
+  threshold: number;            // 0-255, pixels above it are kept
+  invert: boolean;              // Keep pixels below the threshold instead (dark logos on white)
+  gap: number;                  // Step size in px when reading pixels
+}
+
+// Layouts the particles can morph between
+export type ShapeKind = 'text' | 'image' | 'sphere' | 'heart' | 'grid';
+
+export type ShapeTarget =
+  | { kind: 'text'; settings: TextSettings }
+  | { kind: 'image'; image: HTMLImageElement; settings: ImageShapeSettings }
+  | { kind: 'sphere' }
+  | { kind: 'heart' }
+  | { kind: 'grid' };
+
+// One batch of uploaded photos (an empty set means the default texture)
+export interface TextureSet {
+  thumbnails: string[];     // Downscaled data URLs packed into the atlas
+  mosaic: string | null;    // Larger copy of the first photo for the mosaic mode
+}
+
+// Output size of PNG snapshots
+export interface SnapshotSize {
+  useWindow: boolean;  // Follow the window size instead of the custom one
+  width: number;
+  height: number;
+}
+
+// How uploaded photos are spread over the particles
+// random: each particle shows a whole photo, mosaic: each shows its own tile of one photo
+export type TextureMode = 'random' | 'mosaic';
+
+// Gesture-driven motion of the camera and particles
+export interface PhysicsSettings {
+  pullAcceleration: number;  // Camera speed-up per frame while zooming out
+  pushAcceleration: number;  // ...and while zooming in
+  damping: number;           // Camera velocity kept per frame
+  flowLerp: number;          // Easing of the flow wave
+  scatterTriggerZ: number;   // Camera distance below which scattering works
+  waveAmplitude: number;
+  scatterDistance: number;
+  scaleMultiplier: number;   // Particle size while a SCALE gesture is held
+  springStiffness: number;   // Particle simulation, see particleSimulation.ts
+  drag: number;
+  turbulence: number;
+  gravity: number;
+}
+
+// How close and far the camera may travel
+export interface CameraLimits {
+  minZ: number;
+  maxZ: number;
+  defaultZ: number;
+}
+
+// How each particle is shaded
+// basic: unlit, lit: picks up the scene lights, glow: soft additive points without texture
+export type ParticleMaterialStyle = 'basic' | 'lit' | 'glow';
+
+// Where the particle colors come from
+// photos: the uploaded photos tinted by particleColor, solid: particleColor,
+// gradient: particleColor to gradientColor from left to right across the layout
+export type ParticleFill = 'photos' | 'solid' | 'gradient';
+
+export interface RenderSettings {
+  material: ParticleMaterialStyle;
+  fill: ParticleFill;
+  gradientColor: string;
+  bloom: boolean;
+  bloomStrength: number;
+  trails: boolean;          // Frames fade out instead of being cleared
+  reactive: boolean;        // Colors shift while flowing, particles glow while scattering
+}
+
+// Frequency bands of the audio analyzer (ranges in constants.ts)
+export type AudioBand = 'bass' | 'mid' | 'treble';
+
+// Energy per band, 0 silent - 1 full scale
+export type AudioLevels = Record<AudioBand, number>;
+
+// One analysis of the playing audio
+export interface AudioFrame {
+  levels: AudioLevels;
+  beats: Record<AudioBand, boolean>;  // The band jumped well above its recent average
+}
+
+// Scene parameters the audio can drive alongside the gestures
+// flow: the flowing effect follows the band, scatter: a beat bursts the particles,
+// scale: particles swell with the band
+export type AudioTarget = 'flow' | 'scatter' | 'scale';
+
+export interface AudioRoute {
+  band: AudioBand | 'off';
+  amount: number;           // Flow and scatter: 0-1 of the full effect, scale: extra size at full level
+}
+
+// Where the analyzed audio comes from
+export type AudioSourceKind = 'off' | 'microphone' | 'file';
+
+// Gesture-triggered sounds
+export type SoundCue = 'whoosh' | 'shimmer' | 'chime';
+
+export interface AudioSettings {
+  routes: Record<AudioTarget, AudioRoute>;
+  sensitivity: number;      // Input gain before analysis
+  musicVolume: number;      // Playback of an audio file (the microphone is never played back)
+  cueVolume: number;        // Gesture sound cues, 0 = silent
+}
+
+// Scene parameters that can change at runtime (defaults come from constants.ts)
+export interface SceneSettings {
+  particleColor: string;    // CSS hex color tinting every particle
+  backgroundColor: string;  // Also used for the fog
+  physics: PhysicsSettings;
+  camera: CameraLimits;
+  render: RenderSettings;
+  audio: AudioSettings;
+}
+
+// Unattended kiosk behaviour while nobody is in front of the camera
+export interface AttractSettings {
+  enabled: boolean;
+  idleSeconds: number;      // Time without a hand before attract mode starts
+  prompt: string;           // Shown while attract mode runs, e.g. "Raise your hand"
+  messages: string[];       // Texts cycled through (empty = keep the configured text)
+}
+
+// What the attract choreography is doing right now
+export interface AttractCue {
+  cycle: number;            // Completed passes through the choreography
+  actions: GestureAction[]; // Continuous actions the scene plays as if a hand held them
+}
+
+// A complete, shareable configuration. Images are data URLs (embedded) or plain URLs (referenced).
+export interface ScenePreset {
+  version: 1;
+  name: string;
+  savedAt: string;          // ISO date
+  text: TextSettings;
+  scene: SceneSettings;
+  bindings: GestureBinding[];
+  customGestures: CustomGesture[];  // Trained poses the bindings may refer to
+  textureSets: TextureSet[];
+  textureSetIndex: number;
+  textureMode: TextureMode;
+  shapeImage: string | null;
+  imageShape: ImageShapeSettings;
+  attract: AttractSettings;
+}
+
+// Messages exchanged through the sync relay (server/relay.mjs)
+export type SyncMessage =
+  | { type: 'hands'; hands: TrackedHand[] }         // Hands recognized by a broadcasting tab
+  | { type: 'text'; text: TextSettings }            // Pushed by a controller
+  | { type: 'textures'; textureSet: TextureSet }
+  | { type: 'preset'; preset: ScenePreset }
+  | { type: 'peers'; count: number };               // From the relay when someone joins or leaves
+
+export type SyncStatus = 'off' | 'connecting' | 'connected';
+
+// Connection to the sync relay
+export interface SyncSettings {
+  enabled: boolean;
+  url: string;              // ws:// address of the relay
+  room: string;             // Tabs only see messages from the same room
+  broadcast: boolean;       // Send this tab's recognized hands to the room
+}
+
 // MediaPipe Type Definitions (since we use CDN)
 export interface Landmark {
   x: number;
@@ -16,30 +306,24 @@ export interface Landmark {
 
 export interface NormalizedLandmarkList extends Array<Landmark> {}
 
-export interface Results {
-  multiHandLandmarks: NormalizedLandmarkList[];
-  multiHandedness: any[];
-  image: any;
+// Handedness classification, one per entry in multiHandLandmarks
+export interface Handedness {
+  index: number;
+  score: number;
+  label: HandLabel;
+  displayName?: string;
 }
 
-export interface HandsOptions {
-  maxNumHands?: number;
-  modelComplexity?: number;
-  minDetectionConfidence?: number;
-  minTrackingConfidence?: number;
+// One MediaPipe result as stored in a recorded session
+export interface RecordedFrame {
+  t: number;  // ms since the recording started
+  multiHandLandmarks: NormalizedLandmarkList[];
+  multiHandedness: Handedness[];
 }
 
-export interface Hands {
-  setOptions(options: HandsOptions): void;
-  onResults(callback: (results: Results) => void): void;
-  send(input: { image: HTMLVideoElement }): Promise<void>;
-  close(): Promise<void>;
+// A recorded landmark stream, replayable in place of the camera
+export interface RecordedSession {
+  version: 1;
+  recordedAt: string;  // ISO date
+  frames: RecordedFrame[];
 }
-
-// Window interface extension to include MediaPipe globals
-declare global {
-  interface Window {
-    Hands: new (config?: { locateFile: (file: string) => string }) => Hands;
-    Camera: new (video: HTMLVideoElement, config: { onFrame: () => Promise<void>, width: number, height: number }) => { start: () => Promise<void> };
-  }
-}
\ No newline at end of file
@@ -1,15 +1,49 @@
+/// <reference types="vitest/config" />
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Serves the MediaPipe Hands model, graph and WASM files from the app in dev and copies
+// them into the build, so hand tracking works without any network access
+const mediapipeAssets = (): Plugin => {
+  const sourceDir = path.resolve(__dirname, 'node_modules/@mediapipe/hands');
+  const urlPath = '/mediapipe/hands';
+  const isRuntimeFile = (file: string) => !file.endsWith('.d.ts') && !['package.json', 'README.md'].includes(file);
+
+  return {
+    name: 'mediapipe-assets',
+    configureServer(server) {
+      server.middlewares.use(urlPath, (req, res, next) => {
+        const file = path.basename((req.url ?? '').split('?')[0]);
+        const filePath = path.join(sourceDir, file);
+        if (!file || !isRuntimeFile(file) || !fs.existsSync(filePath)) return next();
+        if (file.endsWith('.wasm')) res.setHeader('Content-Type', 'application/wasm');
+        fs.createReadStream(filePath).pipe(res);
+      });
+    },
+    generateBundle() {
+      fs.readdirSync(sourceDir).filter(isRuntimeFile).forEach(file => {
+        this.emitFile({
+          type: 'asset',
+          fileName: `${urlPath.slice(1)}/${file}`,
+          source: fs.readFileSync(path.join(sourceDir, file)),
+        });
+      });
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      // Relative asset URLs so the build runs from any path (GitHub Pages, a kiosk's local server)
+      base: './',
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), mediapipeAssets()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
@@ -18,6 +52,11 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
-      }
+      },
+      // Recognition logic is pure, so the tests run headlessly in Node
+      test: {
+        environment: 'node',
+        include: ['tests/**/*.test.ts'],
+      },
     };
 });